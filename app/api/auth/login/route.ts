@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, SESSION_DAYS, authConfigFromEnv, checkCredentials, createSessionToken } from '@/lib/auth'
+import { clientAddress, loginFailureLimit } from '@/lib/rate-limit'
+
+// Signs in with `{ username?, password }` and sets the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const config = authConfigFromEnv()
+    if (!config) {
+      return NextResponse.json({ error: 'Login is not enabled on this server' }, { status: 400 })
+    }
+
+    const { username, password } = await request.json()
+    const name = typeof username === 'string' ? username : ''
+
+    // Counted per address and username, so a proxy that hides addresses can't
+    // let one guesser lock every user out. Checked before the password, so a
+    // locked-out client can't keep guessing
+    const attempt = `${clientAddress(request)}\n${name.trim()}`
+    const rateLimit = loginFailureLimit.check(attempt)
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: `Too many failed logins; try again in ${Math.ceil(rateLimit.retryAfterSeconds / 60)} min` },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      )
+    }
+
+    const user = checkCredentials(config, name, typeof password === 'string' ? password : '')
+    if (!user) {
+      loginFailureLimit.fail(attempt)
+      return NextResponse.json({ error: 'Wrong username or password' }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ user })
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(config, user), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: SESSION_DAYS * 86400
+    })
+    return response
+  } catch (error) {
+    console.error('Error in login API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
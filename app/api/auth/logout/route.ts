@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/auth'
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { toICalendar } from '@/lib/ical'
+import { isValidTimezone } from '@/lib/normalize'
+import { runScrape } from '@/lib/pipeline'
+import { createProvider, needsApiKey, providerConfigFromEnv } from '@/lib/providers'
+import { MAX_URLS_PER_SCRAPE, clientAddress, scrapeRateLimit } from '@/lib/rate-limit'
+import { getList } from '@/lib/store'
+
+export const maxDuration = 60 // Set function timeout to 60 seconds
+
+// Calendar apps poll feeds every few minutes to hours; don't re-scrape every time
+const FEED_CACHE_MINUTES = parseInt(process.env.FEED_CACHE_MINUTES || '60', 10)
+// Feeds kept at once; each list and timezone is its own feed
+const FEED_CACHE_MAX_ENTRIES = parseInt(process.env.FEED_CACHE_MAX_ENTRIES || '100', 10)
+
+type CachedFeed = { body: string; expiresAt: number }
+
+const feedCache = new Map<string, CachedFeed>()
+
+// Drops expired feeds, then the oldest ones while the cache is full
+function cacheFeed(key: string, feed: CachedFeed) {
+  const now = Date.now()
+  feedCache.forEach((entry, cachedKey) => {
+    if (entry.expiresAt < now) feedCache.delete(cachedKey)
+  })
+  feedCache.delete(key)
+  while (feedCache.size > 0 && feedCache.size >= FEED_CACHE_MAX_ENTRIES) {
+    feedCache.delete(feedCache.keys().next().value as string)
+  }
+  feedCache.set(key, feed)
+}
+
+/**
+ * Subscribable iCalendar feed for a saved list, e.g.
+ * `webcal://host/api/calendar?list=<id>&tz=America/Chicago`. The list's
+ * URLs, per-venue settings and name are read from the store, so a feed URL
+ * only ever scrapes what's saved in its list.
+ *
+ * Calendar apps can't send the user's API key, so feeds use the server's
+ * configured model (see `providerConfigFromEnv`).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const listId = params.get('list')
+    const timezone = params.get('tz') || undefined
+
+    if (!listId) {
+      return NextResponse.json({ error: 'list is required' }, { status: 400 })
+    }
+    if (timezone && !isValidTimezone(timezone)) {
+      return NextResponse.json({ error: `Unknown timezone: ${timezone}` }, { status: 400 })
+    }
+
+    const list = await getList(listId)
+    if (!list) {
+      return NextResponse.json({ error: 'List not found' }, { status: 404 })
+    }
+    const { urls, name, venueOptions } = list
+    if (urls.length === 0) {
+      return NextResponse.json({ error: 'The list has no URLs' }, { status: 400 })
+    }
+    if (urls.length > MAX_URLS_PER_SCRAPE) {
+      return NextResponse.json({ error: `A feed can include at most ${MAX_URLS_PER_SCRAPE} URLs` }, { status: 400 })
+    }
+
+    const providerConfig = providerConfigFromEnv()
+    if (needsApiKey(providerConfig)) {
+      return NextResponse.json({ error: 'Calendar feeds require OPENAI_API_KEY to be set on the server' }, { status: 500 })
+    }
+
+    // Editing the list starts a fresh feed rather than serving the old one until it expires
+    const cacheKey = JSON.stringify([listId, urls, name, timezone, venueOptions])
+    let cached = feedCache.get(cacheKey)
+    if (!cached || cached.expiresAt < Date.now()) {
+      // Only actual scrapes count; serving a cached feed is cheap
+      const rateLimit = scrapeRateLimit(clientAddress(request))
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { error: 'Too many feed refreshes; try again later' },
+          { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+        )
+      }
+      const { events } = await runScrape(urls, { provider: await createProvider(providerConfig), timezone, venueOptions })
+      cached = { body: toICalendar(events, { name }), expiresAt: Date.now() + FEED_CACHE_MINUTES * 60000 }
+      cacheFeed(cacheKey, cached)
+    }
+
+    return new Response(cached.body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${name.replace(/[^\w.-]+/g, '-')}.ics"`,
+        'Cache-Control': `public, max-age=${FEED_CACHE_MINUTES * 60}`
+      }
+    })
+  } catch (error) {
+    console.error('Error in calendar API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, authConfigFromEnv, verifySessionToken } from '@/lib/auth'
+import { allowUserApiKeys, needsApiKey, providerConfigFromEnv } from '@/lib/providers'
+
+// Depends on env and the session cookie; never serve a build-time snapshot
+export const dynamic = 'force-dynamic'
+
+/**
+ * What the page needs to know about the server's setup: whether login is on
+ * and who is signed in, and whether the user has to (or may) bring their own
+ * API key. Public, so the login page can use it.
+ */
+export async function GET(request: NextRequest) {
+  const config = authConfigFromEnv()
+  const user = config ? await verifySessionToken(config, request.cookies.get(SESSION_COOKIE)?.value) : null
+
+  return NextResponse.json({
+    auth: {
+      enabled: !!config,
+      user,
+      // Whether there are named users, so the login form needs a username
+      usernames: !!config && Object.keys(config.users).length > (process.env.APP_PASSWORD ? 1 : 0)
+    },
+    apiKey: {
+      server: !needsApiKey(providerConfigFromEnv()),
+      userKeys: allowUserApiKeys()
+    }
+  })
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authConfigFromEnv, calendarFeedKey } from '@/lib/auth'
+import { getList } from '@/lib/store'
+
+type Context = { params: { id: string } }
+
+// The `key` for the list's calendar feed URL; null when login is off and feeds need none
+export async function GET(request: NextRequest, { params }: Context) {
+  try {
+    if (!(await getList(params.id))) {
+      return NextResponse.json({ error: 'List not found' }, { status: 404 })
+    }
+    const config = authConfigFromEnv()
+    return NextResponse.json({ key: config ? await calendarFeedKey(config, params.id) : null })
+  } catch (error) {
+    console.error('Error in list feed API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidCron } from '@/lib/cron'
+import { isValidTimezone } from '@/lib/normalize'
+import { deleteList, getList, getLatestRun, updateList } from '@/lib/store'
+import { normalizeUrls, normalizeVenueOptions } from '@/lib/urls'
+
+type Context = { params: { id: string } }
+
+// The list with its most recent finished run, so the page can show last results on load
+export async function GET(request: NextRequest, { params }: Context) {
+  const list = await getList(params.id)
+  if (!list) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 })
+  }
+  return NextResponse.json({ list, latestRun: (await getLatestRun(params.id)) || null })
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  try {
+    const { name, urls, venueOptions, schedule } = await request.json()
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'List name cannot be empty' }, { status: 400 })
+    }
+    if (urls !== undefined && (!Array.isArray(urls) || urls.some(url => typeof url !== 'string'))) {
+      return NextResponse.json({ error: 'urls must be an array of strings' }, { status: 400 })
+    }
+    const normalized = urls !== undefined ? normalizeUrls(urls) : undefined
+    if (normalized && normalized.invalid.length > 0) {
+      return NextResponse.json({ error: `Not a valid http(s) URL: ${normalized.invalid[0]}` }, { status: 400 })
+    }
+
+    // `schedule: null` turns scheduled runs off
+    if (schedule) {
+      if (typeof schedule.cron !== 'string' || !isValidCron(schedule.cron)) {
+        return NextResponse.json({ error: `Invalid cron expression: ${schedule.cron}` }, { status: 400 })
+      }
+      if (typeof schedule.timezone !== 'string' || !isValidTimezone(schedule.timezone)) {
+        return NextResponse.json({ error: `Unknown timezone: ${schedule.timezone}` }, { status: 400 })
+      }
+    }
+
+    const list = await updateList(params.id, {
+      ...(name !== undefined ? { name: name.trim() } : {}),
+      ...(normalized ? { urls: normalized.urls } : {}),
+      ...(venueOptions !== undefined ? { venueOptions: normalizeVenueOptions(venueOptions) } : {}),
+      ...(schedule !== undefined
+        ? { schedule: schedule && { cron: schedule.cron.trim(), timezone: schedule.timezone, since: new Date().toISOString() } }
+        : {})
+    })
+    if (!list) {
+      return NextResponse.json({ error: 'List not found' }, { status: 404 })
+    }
+    return NextResponse.json({ list })
+  } catch (error) {
+    console.error('Error in lists API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Context) {
+  if (!(await deleteList(params.id))) {
+    return NextResponse.json({ error: 'List not found' }, { status: 404 })
+  }
+  return new Response(null, { status: 204 })
+}
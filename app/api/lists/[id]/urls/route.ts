@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { addUrls, getList, removeUrlAt } from '@/lib/store'
+import { normalizeUrls } from '@/lib/urls'
+
+type Context = { params: { id: string } }
+
+/**
+ * Adds `{ url }` or a pasted batch `{ urls }`. URLs are normalized first;
+ * invalid ones and ones the list already has are reported rather than added,
+ * along with other lists that already contain the added ones.
+ */
+export async function POST(request: NextRequest, { params }: Context) {
+  try {
+    const { url, urls } = await request.json()
+    const inputs: unknown[] = Array.isArray(urls) ? urls : [url]
+    if (inputs.length === 0 || inputs.some(input => typeof input !== 'string' || !input.trim())) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 })
+    }
+
+    const normalized = normalizeUrls(inputs as string[])
+    if (!Array.isArray(urls) && normalized.invalid.length > 0) {
+      return NextResponse.json({ error: `Not a valid http(s) URL: ${url}` }, { status: 400 })
+    }
+
+    const result = await addUrls(params.id, normalized.urls)
+    if (!result) {
+      return NextResponse.json({ error: 'List not found' }, { status: 404 })
+    }
+    if (!Array.isArray(urls) && result.added.length === 0) {
+      return NextResponse.json({ error: `Already in this list: ${normalized.urls[0]}` }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      list: result.list,
+      added: result.added,
+      duplicates: [...normalized.duplicates, ...result.duplicates],
+      invalid: normalized.invalid,
+      elsewhere: result.elsewhere
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in list URLs API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
+
+// Removes the URL at `{ index }`; `{ url }` removes its first occurrence
+export async function DELETE(request: NextRequest, { params }: Context) {
+  try {
+    const { index, url } = await request.json()
+
+    const existing = await getList(params.id)
+    if (!existing) {
+      return NextResponse.json({ error: 'List not found' }, { status: 404 })
+    }
+
+    const position = typeof index === 'number' ? index : existing.urls.indexOf(url)
+    const list = await removeUrlAt(params.id, position)
+    if (!list) {
+      return NextResponse.json({ error: 'URL not found in list' }, { status: 404 })
+    }
+    return NextResponse.json({ list })
+  } catch (error) {
+    console.error('Error in list URLs API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { importLists } from '@/lib/store'
+import type { URLList } from '@/lib/types'
+import { normalizeUrls, normalizeVenueOptions } from '@/lib/urls'
+
+/**
+ * One-time migration of lists the page used to keep in localStorage. Each
+ * list is checked and normalized like one created through POST /api/lists;
+ * URLs that aren't valid are dropped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { lists } = await request.json()
+    if (!Array.isArray(lists)) {
+      return NextResponse.json({ error: 'lists must be an array' }, { status: 400 })
+    }
+
+    const valid: URLList[] = []
+    for (const list of lists) {
+      if (!list || typeof list.id !== 'string' || !list.id) {
+        return NextResponse.json({ error: 'Every list needs an id' }, { status: 400 })
+      }
+      if (typeof list.name !== 'string' || !list.name.trim()) {
+        return NextResponse.json({ error: `List ${list.id} has no name` }, { status: 400 })
+      }
+      if (!Array.isArray(list.urls) || list.urls.some((url: unknown) => typeof url !== 'string')) {
+        return NextResponse.json({ error: `urls of list ${list.id} must be an array of strings` }, { status: 400 })
+      }
+      if (list.createdAt !== undefined && (typeof list.createdAt !== 'string' || isNaN(Date.parse(list.createdAt)))) {
+        return NextResponse.json({ error: `Invalid createdAt for list ${list.id}: ${list.createdAt}` }, { status: 400 })
+      }
+
+      valid.push({
+        id: list.id,
+        name: list.name.trim(),
+        urls: normalizeUrls(list.urls).urls,
+        venueOptions: normalizeVenueOptions(list.venueOptions),
+        createdAt: list.createdAt ? new Date(list.createdAt).toISOString() : new Date().toISOString()
+      })
+    }
+
+    const imported = await importLists(valid)
+    return NextResponse.json({ imported: imported.length })
+  } catch (error) {
+    console.error('Error in list import API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createList, getLists } from '@/lib/store'
+import { normalizeUrls, normalizeVenueOptions } from '@/lib/urls'
+
+// Lists change at runtime; never serve a build-time snapshot
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json({ lists: await getLists() })
+}
+
+// URLs are normalized and deduplicated; the ones that aren't valid are reported back
+export async function POST(request: NextRequest) {
+  try {
+    const { name, urls, venueOptions } = await request.json()
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'List name is required' }, { status: 400 })
+    }
+    if (urls !== undefined && (!Array.isArray(urls) || urls.some(url => typeof url !== 'string'))) {
+      return NextResponse.json({ error: 'urls must be an array of strings' }, { status: 400 })
+    }
+
+    const normalized = normalizeUrls(urls || [])
+    const list = await createList({
+      name: name.trim(),
+      urls: normalized.urls,
+      venueOptions: normalizeVenueOptions(venueOptions)
+    })
+    return NextResponse.json(
+      { list, invalid: normalized.invalid, duplicates: normalized.duplicates },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error in lists API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRun } from '@/lib/store'
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const run = await getRun(params.id)
+  if (!run) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+  }
+  return NextResponse.json({ run })
+}
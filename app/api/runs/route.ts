@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRuns } from '@/lib/store'
+
+// Run history, newest first, with counts in place of the (large) event arrays
+export async function GET(request: NextRequest) {
+  const listId = request.nextUrl.searchParams.get('listId') || undefined
+  const runs = (await getRuns(listId)).map(({ events, changes, ...run }) => ({
+    ...run,
+    eventCount: events.length,
+    changeCounts: changes && {
+      added: changes.added.length,
+      rescheduled: changes.rescheduled.length,
+      priceChanged: changes.priceChanged.length,
+      cancelled: changes.cancelled.length,
+      removed: changes.removed.length
+    }
+  }))
+  return NextResponse.json({ runs })
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runDueSchedules } from '@/lib/scheduler'
+
+export const maxDuration = 60 // Set function timeout to 60 seconds
+// Always check the clock; never serve a build-time snapshot
+export const dynamic = 'force-dynamic'
+
+/**
+ * Runs any scheduled lists that are due. For hosts where the in-process
+ * scheduler can't run (serverless), point a cron job at this route. When
+ * `CRON_SECRET` is set, requests must send `Authorization: Bearer <secret>`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const runs = await runDueSchedules()
+    return NextResponse.json({
+      runs: runs.map(run => ({ id: run.id, listId: run.listId, eventCount: run.events.length }))
+    })
+  } catch (error) {
+    console.error('Error in schedule API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { getMonthlyUsage } from '@/lib/store'
+import { budgetLimitsFromEnv, usageMonth } from '@/lib/usage'
+
+// Usage grows with every run; never serve a build-time snapshot
+export const dynamic = 'force-dynamic'
+
+// Model usage so far this month (UTC) and the budget it counts against
+export async function GET() {
+  const month = usageMonth()
+  return NextResponse.json({ month, usage: await getMonthlyUsage(month), budget: budgetLimitsFromEnv() })
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { removeWatchedArtist } from '@/lib/store'
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!(await removeWatchedArtist(params.id))) {
+    return NextResponse.json({ error: 'Artist not found' }, { status: 404 })
+  }
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { foldText } from '@/lib/dedupe'
+import { addWatchedArtist, getWatchlist } from '@/lib/store'
+
+// The watchlist changes at runtime; never serve a build-time snapshot
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json({ artists: await getWatchlist() })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name } = await request.json()
+
+    if (!name || typeof name !== 'string' || !foldText(name)) {
+      return NextResponse.json({ error: 'Artist name is required' }, { status: 400 })
+    }
+    if ((await getWatchlist()).some(artist => foldText(artist.name) === foldText(name))) {
+      return NextResponse.json({ error: `${name.trim()} is already on the watchlist` }, { status: 409 })
+    }
+
+    const artist = await addWatchedArtist(name.trim())
+    return NextResponse.json({ artist }, { status: 201 })
+  } catch (error) {
+    console.error('Error in watchlist API:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An error occurred' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+export default function Login() {
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [showUsername, setShowUsername] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Only ask for a username when the server has named users
+  useEffect(() => {
+    fetch('/api/config')
+      .then(response => response.json())
+      .then(data => setShowUsername(!!data.auth?.usernames))
+      .catch(() => setShowUsername(true))
+  }, [])
+
+  const login = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(data?.error || `HTTP error! status: ${response.status}`)
+      }
+
+      // Back to where the user was headed, but never off-site
+      const next = new URLSearchParams(window.location.search).get('next') || '/'
+      window.location.href = next.startsWith('/') && !next.startsWith('//') ? next : '/'
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not sign in')
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-16">
+      <div className="max-w-sm mx-auto px-4">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Music Events Scraper</h1>
+        <form onSubmit={login} className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold">Sign In</h2>
+          {showUsername && (
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="username"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="current-password"
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {error && (
+            <p className="text-sm text-red-700">{error}</p>
+          )}
+          <button
+            type="submit"
+            disabled={loading || !password}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {loading ? 'Signing in...' : 'Sign In'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,23 +1,232 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { v4 as uuidv4 } from 'uuid'
-
-type URLList = {
-  id: string
-  name: string
-  urls: string[]
-  createdAt: Date
+import { useState, useEffect, useMemo } from 'react'
+import { hasChanges } from '@/lib/changes'
+import { nextCronTime } from '@/lib/cron'
+import { dedupeEvents } from '@/lib/dedupe'
+import { DEFAULT_FILTERS, applyFilters, filtersFromParams, filtersToParams, type EventFilters, type SortKey } from '@/lib/event-filters'
+import { formatEventDate, formatEventPrice, formatEventTime, sortEventsByDate } from '@/lib/events'
+import { toICalendar } from '@/lib/ical'
+import { isValidTimezone } from '@/lib/normalize'
+import { exportListsCsv, exportListsJson, parseListsFile } from '@/lib/list-io'
+import { describeAddedUrls, splitUrlText } from '@/lib/urls'
+import { findWatchMatches, highlightArtists } from '@/lib/watchlist'
+import { readNdjson } from '@/lib/ndjson'
+import type { CacheStats, ErrorCategory, Event, EventChange, RunChanges, ScrapeProgress, ScrapeRun, SourceStatus, TokenUsage, URLList, VenueOptions, WatchedArtist } from '@/lib/types'
+
+// What GET /api/config reports about the server's setup
+type ServerConfig = {
+  auth: { enabled: boolean; user: string | null; usernames: boolean }
+  apiKey: { server: boolean; userKeys: boolean }
+}
+
+// What GET /api/usage reports: this month's model usage and the budgets it counts against
+type MonthlyUsage = {
+  month: string
+  usage: TokenUsage
+  budget: { perRunUsd?: number; monthlyUsd?: number; action: 'stop' | 'text-only' }
+}
+
+type UrlProgress = {
+  status: 'pending' | 'started' | 'retrying' | 'scraped' | 'extracted' | 'failed'
+  eventCount?: number
+  retries?: number
+  error?: string
+}
+
+const PROGRESS_LABELS: Record<UrlProgress['status'], string> = {
+  pending: 'Waiting',
+  started: 'Loading page...',
+  retrying: 'Retrying...',
+  scraped: 'Extracting events...',
+  extracted: 'Done',
+  failed: 'Failed'
+}
+
+const ERROR_LABELS: Record<ErrorCategory, string> = {
+  navigation_timeout: 'Timeout',
+  navigation_error: 'Unreachable',
+  http_status: 'HTTP error',
+  bot_block: 'Bot blocked',
+  blocked_url: 'Not allowed',
+  robots_disallowed: 'robots.txt',
+  budget_exceeded: 'Budget reached',
+  llm_error: 'AI error',
+  invalid_json: 'Bad AI output',
+  unknown: 'Error'
 }
 
-type Event = {
-  venue: string
-  eventName: string
-  date: string
-  time: string
-  price?: string
-  description?: string
-  url: string
+const SOURCE_TITLES: Record<Event['source'], string> = {
+  structured: 'Read from the page\'s schema.org data',
+  adapter: 'Read directly from the ticketing platform',
+  llm: 'Extracted by the AI model'
+}
+
+const SCHEDULE_PRESETS = [
+  { label: 'Every day at 8:00', cron: '0 8 * * *' },
+  { label: 'Mondays and Thursdays at 8:00', cron: '0 8 * * 1,4' },
+  { label: 'Every Monday at 8:00', cron: '0 8 * * 1' },
+  { label: 'Every 6 hours', cron: '0 */6 * * *' }
+]
+
+async function fetchJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+  const data = response.status === 204 ? null : await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new Error(data?.error || `HTTP error! status: ${response.status}`)
+  }
+  return data as T
+}
+
+function downloadFile(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type })
+  const link = document.createElement('a')
+  link.href = URL.createObjectURL(blob)
+  link.download = filename.replace(/[^\w.-]+/g, '-')
+  link.click()
+  URL.revokeObjectURL(link.href)
+}
+
+type AddUrlsResult = {
+  list: URLList
+  added: string[]
+  duplicates: string[]
+  invalid: string[]
+  elsewhere: { url: string; listIds: string[] }[]
+}
+
+// Sub-cent costs keep enough digits to compare runs
+const formatUsd = (value: number) => `$${value > 0 && value < 0.01 ? value.toFixed(4) : value.toFixed(2)}`
+
+function HealthBadge({ status }: { status?: SourceStatus }) {
+  if (!status) {
+    return <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-500">Not run</span>
+  }
+
+  const seconds = (status.timings.totalMs / 1000).toFixed(1)
+  const cached = status.cache ? `, ${status.cache.hits} of ${status.cache.hits + status.cache.misses} page sections from cache` : ''
+  const retried = status.retries ? `, ${status.retries} ${status.retries === 1 ? 'retry' : 'retries'}` : ''
+  const cost = status.usage ? `, est. ${formatUsd(status.usage.costUsd)} for AI` : ''
+  const title = `Last run ${new Date(status.finishedAt).toLocaleString()} (${seconds}s${retried}${cached}${cost})${status.error ? `: ${status.error}` : ''}`
+
+  if (!status.ok) {
+    const label = status.errorCategory === 'http_status' && status.httpStatus
+      ? `HTTP ${status.httpStatus}`
+      : ERROR_LABELS[status.errorCategory || 'unknown']
+    return <span title={title} className="px-2 py-0.5 rounded text-xs bg-red-100 text-red-800">{label}</span>
+  }
+
+  return (
+    <span
+      title={title}
+      className={`px-2 py-0.5 rounded text-xs ${
+        status.eventCount > 0 ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+      }`}
+    >
+      {status.eventCount > 0 ? `${status.eventCount} events` : 'No events'}
+    </span>
+  )
+}
+
+function nextRunLabel(list: URLList): string | null {
+  if (!list.schedule) return null
+  try {
+    return nextCronTime(list.schedule.cron, new Date(), list.schedule.timezone).toLocaleString()
+  } catch {
+    return null
+  }
+}
+
+function ChangedEvent({ event }: { event: Event }) {
+  return (
+    <span>
+      <a href={event.url} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+        {event.eventName}
+      </a>
+      <span className="text-gray-500"> at {event.venue}, {formatEventDate(event)}</span>
+    </span>
+  )
+}
+
+function ChangesPanel({ changes, finishedAt }: { changes: RunChanges; finishedAt?: string }) {
+  const sections: { title: string; className: string; items: Event[] | EventChange[]; detail?: (change: EventChange) => string }[] = [
+    { title: 'Newly announced', className: 'text-green-700', items: changes.added },
+    {
+      title: 'Rescheduled',
+      className: 'text-blue-700',
+      items: changes.rescheduled,
+      detail: change => `was ${formatEventDate(change.previous)} ${formatEventTime(change.previous)}`
+    },
+    {
+      title: 'Price changed',
+      className: 'text-orange-700',
+      items: changes.priceChanged,
+      detail: change => `was ${formatEventPrice(change.previous) || '-'}, now ${formatEventPrice(change.event) || '-'}`
+    },
+    { title: 'Cancelled', className: 'text-red-700', items: changes.cancelled },
+    { title: 'No longer listed', className: 'text-gray-600', items: changes.removed }
+  ]
+
+  return (
+    <div className="mt-8 bg-white shadow rounded-lg p-6">
+      <h2 className="text-xl font-semibold">What&apos;s New Since Last Run</h2>
+      {finishedAt && <p className="text-sm text-gray-500 mb-4">Run finished {new Date(finishedAt).toLocaleString()}</p>}
+      {!hasChanges(changes) ? (
+        <p className="text-gray-500">Nothing has changed.</p>
+      ) : (
+        <div className="space-y-4">
+          {sections.filter(section => section.items.length > 0).map(section => (
+            <div key={section.title}>
+              <h3 className={`font-medium mb-1 ${section.className}`}>
+                {section.title} ({section.items.length})
+              </h3>
+              <ul className="space-y-1 text-sm">
+                {section.items.map((item, index) => 'previous' in item ? (
+                  <li key={index}>
+                    <ChangedEvent event={item.event} />
+                    {section.detail && <span className="text-gray-500"> ({section.detail(item)})</span>}
+                  </li>
+                ) : (
+                  <li key={index}><ChangedEvent event={item} /></li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function Highlighted({ text, artists }: { text: string; artists: string[] }) {
+  if (artists.length === 0) return <>{text}</>
+  return (
+    <>
+      {highlightArtists(text, artists).map((segment, index) =>
+        segment.match ? <mark key={index} className="bg-yellow-200 rounded px-0.5">{segment.text}</mark> : segment.text
+      )}
+    </>
+  )
+}
+
+function SortHeader({ label, column, filters, onSort }: {
+  label: string
+  column: SortKey
+  filters: EventFilters
+  onSort: (column: SortKey) => void
+}) {
+  const active = filters.sort === column
+  return (
+    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+      <button onClick={() => onSort(column)} className={`uppercase tracking-wider ${active ? 'text-gray-900' : 'hover:text-gray-700'}`}>
+        {label}
+        {active && (filters.descending ? ' ▼' : ' ▲')}
+      </button>
+    </th>
+  )
 }
 
 export default function Home() {
@@ -25,80 +234,351 @@ export default function Home() {
   const [selectedListId, setSelectedListId] = useState<string>('')
   const [newListName, setNewListName] = useState('')
   const [newUrl, setNewUrl] = useState('')
+  const [bulkUrls, setBulkUrls] = useState('')
+  const [showBulkAdd, setShowBulkAdd] = useState(false)
+  const [urlNotice, setUrlNotice] = useState<string | null>(null)
+  const [renamingList, setRenamingList] = useState<string | null>(null)
   const [events, setEvents] = useState<Event[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<Record<string, UrlProgress>>({})
+  const [health, setHealth] = useState<Record<string, SourceStatus>>({})
+  const [lastRun, setLastRun] = useState<ScrapeRun | null>(null)
+  const [scheduleCron, setScheduleCron] = useState('')
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null)
+  const [runUsage, setRunUsage] = useState<TokenUsage | null>(null)
+  const [monthlyUsage, setMonthlyUsage] = useState<MonthlyUsage | null>(null)
+  const [filters, setFilters] = useState<EventFilters>(DEFAULT_FILTERS)
+  const [urlStateLoaded, setUrlStateLoaded] = useState(false)
+  const [watchlist, setWatchlist] = useState<WatchedArtist[]>([])
+  const [newArtist, setNewArtist] = useState('')
+  const [alertsDismissed, setAlertsDismissed] = useState(false)
+  const [editingUrl, setEditingUrl] = useState<string | null>(null)
   const [apiKey, setApiKey] = useState('')
   const [showApiKey, setShowApiKey] = useState(false)
+  const [rememberApiKey, setRememberApiKey] = useState(false)
+  const [serverConfig, setServerConfig] = useState<ServerConfig | null>(null)
 
-  // Load data from localStorage
+  // Load lists from the server, moving any lists saved by older versions of
+  // this page in localStorage over first
   useEffect(() => {
-    const savedLists = localStorage.getItem('musicVenueLists')
-    const savedApiKey = localStorage.getItem('openaiApiKey')
-    if (savedLists) {
-      setLists(JSON.parse(savedLists))
+    const loadLists = async () => {
+      // A failed import is reported, but shouldn't keep the saved lists from loading
+      const legacyLists = localStorage.getItem('musicVenueLists')
+      if (legacyLists && !localStorage.getItem('musicVenueListsImported')) {
+        try {
+          await fetchJson('/api/lists/import', { method: 'POST', body: JSON.stringify({ lists: JSON.parse(legacyLists) }) })
+          localStorage.setItem('musicVenueListsImported', new Date().toISOString())
+        } catch (err) {
+          setError(err instanceof Error ? `Could not import saved lists: ${err.message}` : 'Could not import saved lists')
+        }
+      }
+
+      try {
+        const data = await fetchJson<{ lists: URLList[] }>('/api/lists')
+        setLists(data.lists)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not load lists')
+      }
     }
+
+    loadLists()
+    fetchJson<{ artists: WatchedArtist[] }>('/api/watchlist')
+      .then(data => setWatchlist(data.artists))
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load watchlist'))
+
+    // A shared link opens the same list with the same filters
+    const params = new URLSearchParams(window.location.search)
+    setFilters(filtersFromParams(params))
+    setSelectedListId(params.get('list') || '')
+    setUrlStateLoaded(true)
+
+    fetchJson<ServerConfig>('/api/config')
+      .then(setServerConfig)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load server settings'))
+    fetchJson<MonthlyUsage>('/api/usage')
+      .then(setMonthlyUsage)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load AI usage'))
+
+    // A key is only kept past this tab when the user asked for that
+    const rememberedApiKey = localStorage.getItem('openaiApiKey')
+    const savedApiKey = rememberedApiKey || sessionStorage.getItem('openaiApiKey')
     if (savedApiKey) {
       setApiKey(savedApiKey)
+      setRememberApiKey(!!rememberedApiKey)
     }
   }, [])
 
-  // Save lists to localStorage
+  // Show the selected list's last results and venue health
   useEffect(() => {
-    localStorage.setItem('musicVenueLists', JSON.stringify(lists))
-  }, [lists])
+    setEvents([])
+    setHealth({})
+    setProgress({})
+    setLastRun(null)
+    setAlertsDismissed(false)
+    setUrlNotice(null)
+    setRenamingList(null)
+    if (!selectedListId) return
+
+    fetchJson<{ list: URLList; latestRun: ScrapeRun | null }>(`/api/lists/${selectedListId}`)
+      .then(({ list, latestRun }) => {
+        setScheduleCron(list.schedule?.cron || '')
+        if (!latestRun) return
+        setLastRun(latestRun)
+        setEvents(latestRun.events)
+        setHealth(Object.fromEntries(latestRun.sources.map(status => [status.url, status])))
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load last results'))
+  }, [selectedListId])
 
-  // Save API key to localStorage
+  // Keep the selected list and filters in the address bar
   useEffect(() => {
+    if (!urlStateLoaded) return
+    const params = filtersToParams(filters, new URLSearchParams(window.location.search))
+    if (selectedListId) {
+      params.set('list', selectedListId)
+    } else {
+      params.delete('list')
+    }
+    const query = params.toString()
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname)
+  }, [filters, selectedListId, urlStateLoaded])
+
+  const visibleEvents = useMemo(() => applyFilters(events, filters), [events, filters])
+  const venues = useMemo(() => Array.from(new Set(events.map(event => event.venue))).sort(), [events])
+
+  const watchMatches = useMemo(() => findWatchMatches(events, watchlist), [events, watchlist])
+  const watchedArtistsByEvent = useMemo(() => {
+    const byEvent = new Map<Event, string[]>()
+    watchMatches.forEach(match => byEvent.set(match.event, [...(byEvent.get(match.event) || []), match.artist]))
+    return byEvent
+  }, [watchMatches])
+
+  const addArtist = async () => {
+    if (!newArtist.trim()) return
+
+    try {
+      const { artist } = await fetchJson<{ artist: WatchedArtist }>('/api/watchlist', {
+        method: 'POST',
+        body: JSON.stringify({ name: newArtist })
+      })
+      setWatchlist(prev => [...prev, artist])
+      setNewArtist('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add artist')
+    }
+  }
+
+  const removeArtist = async (id: string) => {
+    try {
+      await fetchJson(`/api/watchlist/${id}`, { method: 'DELETE' })
+      setWatchlist(prev => prev.filter(artist => artist.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove artist')
+    }
+  }
+
+  const updateFilters = (patch: Partial<EventFilters>) => setFilters(prev => ({ ...prev, ...patch }))
+
+  const sortBy = (column: SortKey) =>
+    updateFilters({ sort: column, descending: filters.sort === column ? !filters.descending : false })
+
+  // Keep the API key for this tab, or on this device when asked to remember it
+  useEffect(() => {
+    const [keep, clear] = rememberApiKey ? [localStorage, sessionStorage] : [sessionStorage, localStorage]
+    clear.removeItem('openaiApiKey')
     if (apiKey) {
-      localStorage.setItem('openaiApiKey', apiKey)
+      keep.setItem('openaiApiKey', apiKey)
+    } else {
+      keep.removeItem('openaiApiKey')
     }
-  }, [apiKey])
+  }, [apiKey, rememberApiKey])
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    window.location.href = '/login'
+  }
+
+  const replaceList = (updated: URLList) => {
+    setLists(prev => prev.map(list => list.id === updated.id ? updated : list))
+  }
 
-  const createNewList = () => {
+  const createNewList = async () => {
     if (!newListName.trim()) return
-    
-    const newList: URLList = {
-      id: uuidv4(),
-      name: newListName,
-      urls: [],
-      createdAt: new Date()
+
+    try {
+      const { list } = await fetchJson<{ list: URLList }>('/api/lists', {
+        method: 'POST',
+        body: JSON.stringify({ name: newListName })
+      })
+      setLists(prev => [...prev, list])
+      setNewListName('')
+      setSelectedListId(list.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create list')
     }
-    
-    setLists([...lists, newList])
-    setNewListName('')
-    setSelectedListId(newList.id)
   }
 
-  const deleteList = (id: string) => {
-    setLists(lists.filter(list => list.id !== id))
-    if (selectedListId === id) {
-      setSelectedListId('')
+  const deleteList = async (id: string) => {
+    try {
+      await fetchJson(`/api/lists/${id}`, { method: 'DELETE' })
+      setLists(prev => prev.filter(list => list.id !== id))
+      if (selectedListId === id) {
+        setSelectedListId('')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete list')
     }
   }
 
-  const addUrlToList = () => {
+  const addUrlToList = async () => {
     if (!newUrl.trim() || !selectedListId) return
-    
-    setLists(lists.map(list => 
-      list.id === selectedListId 
-        ? { ...list, urls: [...list.urls, newUrl] }
-        : list
-    ))
-    setNewUrl('')
+
+    try {
+      const { list, ...result } = await fetchJson<AddUrlsResult>(`/api/lists/${selectedListId}/urls`, {
+        method: 'POST',
+        body: JSON.stringify({ url: newUrl })
+      })
+      replaceList(list)
+      setNewUrl('')
+      setUrlNotice(result.elsewhere.length > 0 ? describeAddedUrls(result, lists) : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add URL')
+    }
+  }
+
+  const addPastedUrls = async () => {
+    const urls = splitUrlText(bulkUrls)
+    if (urls.length === 0 || !selectedListId) return
+
+    try {
+      const { list, ...result } = await fetchJson<AddUrlsResult>(`/api/lists/${selectedListId}/urls`, {
+        method: 'POST',
+        body: JSON.stringify({ urls })
+      })
+      replaceList(list)
+      // Keep whatever couldn't be added so it can be fixed and re-submitted
+      setBulkUrls(result.invalid.join('\n'))
+      setUrlNotice(describeAddedUrls(result, lists))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add URLs')
+    }
+  }
+
+  // By position, so removing one of two copies of a URL leaves the other
+  const removeUrlFromList = async (index: number) => {
+    try {
+      const { list } = await fetchJson<{ list: URLList }>(`/api/lists/${selectedListId}/urls`, {
+        method: 'DELETE',
+        body: JSON.stringify({ index })
+      })
+      replaceList(list)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not remove URL')
+    }
+  }
+
+  const moveUrl = async (index: number, offset: number) => {
+    const list = lists.find(list => list.id === selectedListId)
+    const target = index + offset
+    if (!list || target < 0 || target >= list.urls.length) return
+
+    const urls = [...list.urls]
+    ;[urls[index], urls[target]] = [urls[target], urls[index]]
+    replaceList({ ...list, urls })
+    try {
+      // The server's copy has the URLs normalized and their settings re-keyed to match
+      const response = await fetchJson<{ list: URLList }>(`/api/lists/${list.id}`, { method: 'PATCH', body: JSON.stringify({ urls }) })
+      replaceList(response.list)
+    } catch (err) {
+      replaceList(list)
+      setError(err instanceof Error ? err.message : 'Could not reorder URLs')
+    }
+  }
+
+  const renameList = async () => {
+    const name = renamingList?.trim()
+    if (!name || !selectedListId) return
+
+    try {
+      const { list } = await fetchJson<{ list: URLList }>(`/api/lists/${selectedListId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name })
+      })
+      replaceList(list)
+      setRenamingList(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not rename list')
+    }
   }
 
-  const removeUrlFromList = (url: string) => {
-    setLists(lists.map(list => 
-      list.id === selectedListId 
-        ? { ...list, urls: list.urls.filter(u => u !== url) }
-        : list
-    ))
+  const exportLists = (format: 'json' | 'csv') => {
+    if (format === 'json') {
+      downloadFile(exportListsJson(lists), 'application/json', 'venue-lists.json')
+    } else {
+      downloadFile(exportListsCsv(lists), 'text/csv;charset=utf-8', 'venue-lists.csv')
+    }
+  }
+
+  // Each list in the file becomes a new list; existing lists are never overwritten
+  const importListsFile = async (file: File) => {
+    try {
+      const imported = parseListsFile(await file.text())
+      const created: URLList[] = []
+      const invalid: string[] = []
+      for (const fields of imported) {
+        const result = await fetchJson<{ list: URLList; invalid: string[] }>('/api/lists', {
+          method: 'POST',
+          body: JSON.stringify(fields)
+        })
+        created.push(result.list)
+        invalid.push(...result.invalid)
+      }
+      setLists(prev => [...prev, ...created])
+      setError(invalid.length > 0 ? `Skipped URLs that aren't valid: ${invalid.join(', ')}` : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import lists')
+    }
+  }
+
+  const updateVenueOptions = async (url: string, options: VenueOptions) => {
+    const list = lists.find(list => list.id === selectedListId)
+    if (!list) return
+
+    // Update right away so typing in the settings fields stays responsive
+    const venueOptions = { ...list.venueOptions, [url]: { ...list.venueOptions?.[url], ...options } }
+    replaceList({ ...list, venueOptions })
+    try {
+      await fetchJson(`/api/lists/${list.id}`, { method: 'PATCH', body: JSON.stringify({ venueOptions }) })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save venue settings')
+    }
+  }
+
+  const saveSchedule = async (cron: string | null) => {
+    if (!selectedListId) return
+
+    try {
+      const schedule = cron ? { cron, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone } : null
+      const { list } = await fetchJson<{ list: URLList }>(`/api/lists/${selectedListId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ schedule })
+      })
+      replaceList(list)
+      setScheduleCron(list.schedule?.cron || '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save schedule')
+    }
   }
 
   const scrapeEvents = async () => {
-    if (!selectedListId || !apiKey) {
-      setError('Please select a list and provide an OpenAI API key')
+    if (!selectedListId) {
+      setError('Please select a list')
+      return
+    }
+    if (!apiKey && !serverConfig?.apiKey.server) {
+      setError('Please provide an OpenAI API key')
       return
     }
 
@@ -111,64 +591,167 @@ export default function Home() {
     setLoading(true)
     setError(null)
     setEvents([])
+    setLastRun(null)
+    setAlertsDismissed(false)
+    setCacheStats(null)
+    setRunUsage(null)
+    setProgress(Object.fromEntries(selectedList.urls.map(url => [url, { status: 'pending' }])))
 
     try {
       const response = await fetch('/api/scrape', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          listId: selectedList.id,
           urls: selectedList.urls,
-          apiKey: apiKey
+          venueOptions: selectedList.venueOptions,
+          // Without one, the server's own key is used
+          apiKey: apiKey || undefined,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          refresh: forceRefresh
         })
       })
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || `HTTP error! status: ${response.status}`)
       }
 
-      const data = await response.json()
-      
-      if (data.error) {
-        throw new Error(data.error)
-      }
+      let runId: string | undefined
+      await readNdjson<ScrapeProgress>(response, message => {
+        if (message.type === 'error') throw new Error(message.error)
+        if (message.type === 'done') {
+          runId = message.runId
+          setCacheStats(message.cache)
+          setRunUsage(message.usage)
+          return
+        }
+
+        if (message.type === 'extracted') {
+          // The same show often turns up on both a venue's site and its ticketing page
+          setEvents(prev => sortEventsByDate(dedupeEvents([...prev, ...message.events])))
+        }
+
+        if (message.type === 'extracted' || message.type === 'failed') {
+          setHealth(prev => ({ ...prev, [message.url]: message.status }))
+        }
+
+        setProgress(prev => ({
+          ...prev,
+          [message.url]: {
+            status: message.type,
+            eventCount: message.type === 'extracted' ? message.events.length : undefined,
+            retries: message.type === 'retrying' ? message.retries : undefined,
+            error: message.type === 'failed' ? message.status.error : message.type === 'retrying' ? message.error : undefined
+          }
+        }))
+      })
 
-      setEvents(data.events || [])
+      // The saved run carries the comparison with the previous one
+      if (runId) {
+        const { run } = await fetchJson<{ run: ScrapeRun }>(`/api/runs/${runId}`)
+        setLastRun(run)
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while scraping')
     } finally {
       setLoading(false)
+      // The run's spending now counts toward the month
+      fetchJson<MonthlyUsage>('/api/usage').then(setMonthlyUsage).catch(() => {})
     }
   }
 
   const selectedList = lists.find(list => list.id === selectedListId)
 
+  // Other lists that contain each of the selected list's URLs
+  const otherListsByUrl = useMemo(() => {
+    const byUrl = new Map<string, string[]>()
+    for (const list of lists) {
+      if (list.id === selectedListId) continue
+      list.urls.forEach(url => byUrl.set(url, [...(byUrl.get(url) || []), list.name]))
+    }
+    return byUrl
+  }, [lists, selectedListId])
+
+  const downloadCalendar = () => {
+    const name = selectedList?.name || 'Music Events'
+    downloadFile(toICalendar(visibleEvents, { name }), 'text/calendar;charset=utf-8', `${name}.ics`)
+  }
+
+  const copyFeedUrl = async () => {
+    if (!selectedList) return
+
+    const params = new URLSearchParams({
+      list: selectedList.id,
+      tz: Intl.DateTimeFormat().resolvedOptions().timeZone
+    })
+    // Calendar apps can't sign in, so the feed URL carries the list's own key
+    try {
+      const { key } = await fetchJson<{ key: string | null }>(`/api/lists/${selectedList.id}/feed`)
+      if (key) params.set('key', key)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not get the feed URL')
+      return
+    }
+    const feedUrl = `${window.location.origin.replace(/^https?:/, 'webcal:')}/api/calendar?${params}`
+
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      alert('Calendar feed URL copied. Add it in your calendar app as a subscription.')
+    } catch {
+      window.prompt('Copy this calendar feed URL:', feedUrl)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-8">Music Events Scraper</h1>
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Music Events Scraper</h1>
+          {serverConfig?.auth.user && (
+            <div className="text-sm text-gray-600">
+              Signed in as {serverConfig.auth.user}
+              <button onClick={logout} className="ml-3 text-blue-600 hover:underline">
+                Sign out
+              </button>
+            </div>
+          )}
+        </div>
         
-        {/* API Key Section */}
-        <div className="bg-white shadow rounded-lg p-6 mb-6">
-          <h2 className="text-xl font-semibold mb-4">OpenAI API Key</h2>
-          <div className="flex gap-2">
-            <input
-              type={showApiKey ? "text" : "password"}
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="Enter your OpenAI API key"
-              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-            <button
-              onClick={() => setShowApiKey(!showApiKey)}
-              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
-            >
-              {showApiKey ? 'Hide' : 'Show'}
-            </button>
+        {/* API Key Section: hidden when the server has a key and users can't bring their own */}
+        {serverConfig?.apiKey.userKeys && (
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">
+              OpenAI API Key{serverConfig.apiKey.server && <span className="text-base font-normal text-gray-500"> (optional)</span>}
+            </h2>
+            <div className="flex gap-2">
+              <input
+                type={showApiKey ? "text" : "password"}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder={serverConfig.apiKey.server ? 'Leave empty to use the server\'s key' : 'Enter your OpenAI API key'}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => setShowApiKey(!showApiKey)}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+              >
+                {showApiKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            <p className="text-sm text-gray-500 mt-2">
+              Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">OpenAI Platform</a>
+            </p>
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={rememberApiKey}
+                onChange={(e) => setRememberApiKey(e.target.checked)}
+              />
+              Remember on this device (otherwise it is forgotten when this tab closes)
+            </label>
           </div>
-          <p className="text-sm text-gray-500 mt-2">
-            Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">OpenAI Platform</a>
-          </p>
-        </div>
+        )}
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Lists Section */}
@@ -194,6 +777,37 @@ export default function Home() {
                 </button>
               </div>
 
+              {/* Import / Export */}
+              <div className="mb-4 flex flex-wrap gap-2 text-sm">
+                <label className="px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 cursor-pointer">
+                  Import...
+                  <input
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ''
+                      if (file) importListsFile(file)
+                    }}
+                  />
+                </label>
+                <button
+                  onClick={() => exportLists('json')}
+                  disabled={lists.length === 0}
+                  className="px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Export JSON
+                </button>
+                <button
+                  onClick={() => exportLists('csv')}
+                  disabled={lists.length === 0}
+                  className="px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Export CSV
+                </button>
+              </div>
+
               {/* Lists */}
               <div className="space-y-2">
                 {lists.map(list => (
@@ -224,15 +838,99 @@ export default function Home() {
                 ))}
               </div>
             </div>
+
+            {/* Watched Artists */}
+            <div className="bg-white shadow rounded-lg p-6 mt-6">
+              <h2 className="text-xl font-semibold mb-4">Watched Artists</h2>
+              <div className="mb-4 flex gap-2">
+                <input
+                  type="text"
+                  value={newArtist}
+                  onChange={(e) => setNewArtist(e.target.value)}
+                  placeholder="Artist name"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  onKeyPress={(e) => e.key === 'Enter' && addArtist()}
+                />
+                <button
+                  onClick={addArtist}
+                  className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+                >
+                  Watch
+                </button>
+              </div>
+              <div className="space-y-3">
+                {watchlist.map(artist => {
+                  const shows = watchMatches.filter(match => match.artistId === artist.id)
+                  return (
+                    <div key={artist.id}>
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium">{artist.name}</span>
+                        <div className="flex items-center gap-2">
+                          {shows.length > 0 && (
+                            <span className="px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800">
+                              {shows.length} {shows.length === 1 ? 'show' : 'shows'}
+                            </span>
+                          )}
+                          <button onClick={() => removeArtist(artist.id)} className="text-sm text-red-600 hover:text-red-800">
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                      {shows.length > 0 && (
+                        <ul className="mt-1 text-sm text-gray-600 space-y-0.5">
+                          {shows.map((match, index) => (
+                            <li key={index}>
+                              <a href={match.event.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                {formatEventDate(match.event)}: {match.event.venue}
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )
+                })}
+                {watchlist.length === 0 && (
+                  <p className="text-sm text-gray-500">Add artists to see when they play your venues.</p>
+                )}
+              </div>
+            </div>
           </div>
 
           {/* URL Management Section */}
           <div className="lg:col-span-2">
             {selectedList ? (
               <div className="bg-white shadow rounded-lg p-6">
-                <h2 className="text-xl font-semibold mb-4">
-                  URLs in "{selectedList.name}"
-                </h2>
+                {renamingList !== null ? (
+                  <div className="mb-4 flex gap-2">
+                    <input
+                      type="text"
+                      value={renamingList}
+                      onChange={(e) => setRenamingList(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') renameList()
+                        if (e.key === 'Escape') setRenamingList(null)
+                      }}
+                      autoFocus
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button onClick={renameList} className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700">
+                      Save
+                    </button>
+                    <button onClick={() => setRenamingList(null)} className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="mb-4 flex items-center gap-3">
+                    <h2 className="text-xl font-semibold">
+                      URLs in "{selectedList.name}"
+                    </h2>
+                    <button onClick={() => setRenamingList(selectedList.name)} className="text-sm text-gray-600 hover:text-gray-800">
+                      Rename
+                    </button>
+                  </div>
+                )}
 
                 {/* Add URL */}
                 <div className="mb-4 flex gap-2">
@@ -252,29 +950,245 @@ export default function Home() {
                   </button>
                 </div>
 
-                {/* URL List */}
-                <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
-                  {selectedList.urls.map((url, index) => (
-                    <div key={index} className="flex justify-between items-center p-2 bg-gray-50 rounded">
-                      <a
-                        href={url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-600 hover:underline truncate flex-1"
-                      >
-                        {url}
-                      </a>
+                {/* Bulk Add */}
+                <div className="mb-4 text-sm">
+                  <button onClick={() => setShowBulkAdd(!showBulkAdd)} className="text-blue-600 hover:underline">
+                    {showBulkAdd ? 'Hide bulk add' : 'Paste several URLs...'}
+                  </button>
+                  {showBulkAdd && (
+                    <div className="mt-2">
+                      <textarea
+                        value={bulkUrls}
+                        onChange={(e) => setBulkUrls(e.target.value)}
+                        rows={5}
+                        placeholder={'One URL per line\nhttps://first-venue.com/events\nhttps://second-venue.com/calendar'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
                       <button
-                        onClick={() => removeUrlFromList(url)}
-                        className="ml-2 text-red-600 hover:text-red-800"
+                        onClick={addPastedUrls}
+                        disabled={!bulkUrls.trim()}
+                        className="mt-1 bg-green-600 text-white py-1.5 px-4 rounded-md hover:bg-green-700 disabled:bg-gray-400"
                       >
-                        Remove
+                        Add All
                       </button>
                     </div>
+                  )}
+                  {urlNotice && (
+                    <p className="mt-2 p-2 bg-blue-50 text-blue-800 rounded">
+                      {urlNotice}
+                      <button onClick={() => setUrlNotice(null)} className="ml-2 text-blue-600 hover:underline">Dismiss</button>
+                    </p>
+                  )}
+                </div>
+
+                {/* URL List */}
+                <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+                  {selectedList.urls.map((url, index) => (
+                    <div key={index} className="p-2 bg-gray-50 rounded">
+                      <div className="flex justify-between items-center">
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline truncate flex-1"
+                        >
+                          {url}
+                        </a>
+                        {selectedList.urls.indexOf(url) !== index && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs bg-red-100 text-red-800">Duplicate</span>
+                        )}
+                        {otherListsByUrl.has(url) && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs bg-gray-200 text-gray-700 truncate max-w-[12rem]">
+                            Also in {otherListsByUrl.get(url)!.join(', ')}
+                          </span>
+                        )}
+                        <HealthBadge status={health[url]} />
+                        <button
+                          onClick={() => moveUrl(index, -1)}
+                          disabled={index === 0}
+                          title="Move up"
+                          className="ml-2 text-gray-600 hover:text-gray-800 disabled:opacity-30"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => moveUrl(index, 1)}
+                          disabled={index === selectedList.urls.length - 1}
+                          title="Move down"
+                          className="ml-1 text-gray-600 hover:text-gray-800 disabled:opacity-30"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          onClick={() => setEditingUrl(editingUrl === url ? null : url)}
+                          className="ml-2 text-gray-600 hover:text-gray-800"
+                        >
+                          Settings
+                        </button>
+                        <button
+                          onClick={() => removeUrlFromList(index)}
+                          className="ml-2 text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      {editingUrl === url && (
+                        <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-700">
+                          <label className="flex items-center gap-2">
+                            Max pages
+                            <input
+                              type="number"
+                              min={1}
+                              max={10}
+                              value={selectedList.venueOptions?.[url]?.maxPages ?? 1}
+                              onChange={(e) => updateVenueOptions(url, { maxPages: parseInt(e.target.value, 10) || 1 })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            Days ahead
+                            <input
+                              type="number"
+                              min={0}
+                              placeholder="No limit"
+                              value={selectedList.venueOptions?.[url]?.daysAhead ?? ''}
+                              onChange={(e) => updateVenueOptions(url, { daysAhead: parseInt(e.target.value, 10) || undefined })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={selectedList.venueOptions?.[url]?.scroll !== false}
+                              onChange={(e) => updateVenueOptions(url, { scroll: e.target.checked ? undefined : false })}
+                            />
+                            Scroll to load more
+                          </label>
+                          <label className="flex items-center gap-2" title="Load this page even if the site's robots.txt disallows it">
+                            <input
+                              type="checkbox"
+                              checked={!!selectedList.venueOptions?.[url]?.ignoreRobots}
+                              onChange={(e) => updateVenueOptions(url, { ignoreRobots: e.target.checked || undefined })}
+                            />
+                            Ignore robots.txt
+                          </label>
+                          {/* Text settings save when the field loses focus, not on every keystroke */}
+                          <label className="flex items-center gap-2">
+                            Venue name
+                            <input
+                              type="text"
+                              placeholder="From the page"
+                              defaultValue={selectedList.venueOptions?.[url]?.venueName || ''}
+                              onBlur={(e) => updateVenueOptions(url, { venueName: e.target.value.trim() || undefined })}
+                              className="w-48 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            Timezone
+                            <input
+                              type="text"
+                              placeholder="Same as the run"
+                              defaultValue={selectedList.venueOptions?.[url]?.timezone || ''}
+                              onBlur={(e) => {
+                                const timezone = e.target.value.trim()
+                                if (timezone && !isValidTimezone(timezone)) {
+                                  setError(`Unknown timezone: ${timezone} (use a name like America/New_York)`)
+                                  return
+                                }
+                                updateVenueOptions(url, { timezone: timezone || undefined })
+                              }}
+                              className="w-44 px-2 py-1 border border-gray-300 rounded-md"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            Wait for
+                            <input
+                              type="text"
+                              placeholder="CSS selector"
+                              defaultValue={selectedList.venueOptions?.[url]?.waitForSelector || ''}
+                              onBlur={(e) => updateVenueOptions(url, { waitForSelector: e.target.value.trim() || undefined })}
+                              className="w-48 px-2 py-1 border border-gray-300 rounded-md font-mono"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2">
+                            Listing
+                            <input
+                              type="text"
+                              placeholder="CSS selector"
+                              defaultValue={selectedList.venueOptions?.[url]?.listingSelector || ''}
+                              onBlur={(e) => updateVenueOptions(url, { listingSelector: e.target.value.trim() || undefined })}
+                              className="w-48 px-2 py-1 border border-gray-300 rounded-md font-mono"
+                            />
+                          </label>
+                          <label className="flex items-start gap-2">
+                            Click first
+                            <textarea
+                              rows={2}
+                              placeholder="One CSS selector per line"
+                              defaultValue={selectedList.venueOptions?.[url]?.clickSelectors?.join('\n') || ''}
+                              onBlur={(e) => {
+                                const clickSelectors = e.target.value.split('\n').map(line => line.trim()).filter(Boolean)
+                                updateVenueOptions(url, { clickSelectors: clickSelectors.length > 0 ? clickSelectors : undefined })
+                              }}
+                              className="w-64 px-2 py-1 border border-gray-300 rounded-md font-mono"
+                            />
+                          </label>
+                        </div>
+                      )}
+                    </div>
                   ))}
                 </div>
 
+                {/* Schedule */}
+                <div className="mb-4 p-3 bg-gray-50 rounded text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-gray-700">Re-scrape automatically</span>
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && setScheduleCron(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      <option value="">Presets...</option>
+                      {SCHEDULE_PRESETS.map(preset => (
+                        <option key={preset.cron} value={preset.cron}>{preset.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={scheduleCron}
+                      onChange={(e) => setScheduleCron(e.target.value)}
+                      placeholder="Cron, e.g. 0 8 * * 1"
+                      className="w-40 px-2 py-1 border border-gray-300 rounded-md font-mono"
+                    />
+                    <button
+                      onClick={() => saveSchedule(scheduleCron.trim() || null)}
+                      disabled={scheduleCron.trim() === (selectedList.schedule?.cron || '')}
+                      className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                    >
+                      Save
+                    </button>
+                    {selectedList.schedule && (
+                      <button onClick={() => saveSchedule(null)} className="text-red-600 hover:text-red-800">
+                        Turn off
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-1 text-gray-500">
+                    {selectedList.schedule
+                      ? `Next run: ${nextRunLabel(selectedList) || 'never'} (${selectedList.schedule.timezone})`
+                      : 'Not scheduled'}
+                  </p>
+                </div>
+
                 {/* Scrape Button */}
+                <label className="flex items-center gap-2 mb-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={forceRefresh}
+                    onChange={(e) => setForceRefresh(e.target.checked)}
+                  />
+                  Ignore cached results and send every page to the AI again
+                </label>
                 <button
                   onClick={scrapeEvents}
                   disabled={loading || selectedList.urls.length === 0}
@@ -282,6 +1196,55 @@ export default function Home() {
                 >
                   {loading ? 'Scraping Events...' : 'Scrape Events'}
                 </button>
+
+                {cacheStats && cacheStats.hits + cacheStats.misses > 0 && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    {cacheStats.hits} unchanged page {cacheStats.hits === 1 ? 'section' : 'sections'} reused from cache,{' '}
+                    {cacheStats.misses} sent to the AI
+                  </p>
+                )}
+
+                {runUsage && runUsage.requests > 0 && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    {runUsage.requests} AI {runUsage.requests === 1 ? 'request' : 'requests'}:{' '}
+                    {runUsage.promptTokens.toLocaleString()} prompt tokens
+                    {runUsage.imageTokens > 0 && ` (about ${runUsage.imageTokens.toLocaleString()} for screenshots)`},{' '}
+                    {runUsage.completionTokens.toLocaleString()} completion tokens, est. {formatUsd(runUsage.costUsd)}
+                  </p>
+                )}
+
+                {monthlyUsage && (monthlyUsage.usage.requests > 0 || monthlyUsage.budget.monthlyUsd !== undefined) && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    AI spending this month: est. {formatUsd(monthlyUsage.usage.costUsd)}
+                    {monthlyUsage.budget.monthlyUsd !== undefined && ` of ${formatUsd(monthlyUsage.budget.monthlyUsd)}`}
+                    {monthlyUsage.budget.perRunUsd !== undefined && ` (up to ${formatUsd(monthlyUsage.budget.perRunUsd)} per run)`}
+                  </p>
+                )}
+
+                {/* Per-venue Progress */}
+                {Object.keys(progress).length > 0 && (
+                  <div className="mt-4 space-y-1">
+                    {Object.entries(progress).map(([url, item]) => (
+                      <div key={url} className="flex justify-between items-center text-sm">
+                        <span className="truncate flex-1 text-gray-700">{url}</span>
+                        <span
+                          title={item.error}
+                          className={`ml-2 whitespace-nowrap ${
+                            item.status === 'failed'
+                              ? 'text-red-600'
+                              : item.status === 'extracted'
+                                ? 'text-green-600'
+                                : 'text-gray-500'
+                          }`}
+                        >
+                          {PROGRESS_LABELS[item.status]}
+                          {item.status === 'retrying' && ` (${item.retries})`}
+                          {item.status === 'extracted' && ` (${item.eventCount} events)`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="bg-white shadow rounded-lg p-6">
@@ -298,54 +1261,218 @@ export default function Home() {
           </div>
         )}
 
+        {/* New shows by watched artists */}
+        {lastRun?.watchAlerts && lastRun.watchAlerts.length > 0 && !alertsDismissed && !loading && (
+          <div className="mt-8 bg-yellow-50 border border-yellow-300 text-yellow-900 px-4 py-3 rounded">
+            <div className="flex justify-between items-start">
+              <h2 className="font-semibold mb-1">New shows by artists you watch</h2>
+              <button onClick={() => setAlertsDismissed(true)} className="text-sm hover:underline">
+                Dismiss
+              </button>
+            </div>
+            <ul className="text-sm space-y-0.5">
+              {lastRun.watchAlerts.map((match, index) => (
+                <li key={index}>
+                  <span className="font-medium">{match.artist}</span>: <ChangedEvent event={match.event} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Changes since the previous run */}
+        {lastRun?.changes && !loading && (
+          <ChangesPanel changes={lastRun.changes} finishedAt={lastRun.finishedAt} />
+        )}
+
         {/* Events Table */}
         {events.length > 0 && (
           <div className="mt-8 bg-white shadow rounded-lg overflow-hidden">
-            <h2 className="text-xl font-semibold p-6 border-b">Upcoming Events</h2>
+            <div className="flex justify-between items-center p-6 border-b">
+              <h2 className="text-xl font-semibold">Upcoming Events</h2>
+              <div className="flex gap-2">
+                <button
+                  onClick={downloadCalendar}
+                  className="px-3 py-1.5 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+                >
+                  Download .ics
+                </button>
+                {selectedList && (
+                  <button
+                    onClick={copyFeedUrl}
+                    className="px-3 py-1.5 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+                  >
+                    Copy Calendar Feed URL
+                  </button>
+                )}
+              </div>
+            </div>
+            {/* Filters */}
+            <div className="flex flex-wrap items-end gap-4 p-6 border-b text-sm text-gray-700">
+              <label className="flex flex-col gap-1">
+                Search
+                <input
+                  type="search"
+                  value={filters.search}
+                  onChange={(e) => updateFilters({ search: e.target.value })}
+                  placeholder="Artist or description"
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                From
+                <input
+                  type="date"
+                  value={filters.from || ''}
+                  onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                To
+                <input
+                  type="date"
+                  value={filters.to || ''}
+                  onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <details className="relative">
+                <summary className="px-2 py-1 border border-gray-300 rounded-md cursor-pointer select-none">
+                  {filters.venues.length === 0 ? 'All venues' : `${filters.venues.length} venue${filters.venues.length === 1 ? '' : 's'}`}
+                </summary>
+                <div className="absolute z-10 mt-1 max-h-64 overflow-y-auto bg-white border border-gray-300 rounded-md shadow p-2 space-y-1">
+                  {venues.map(venue => (
+                    <label key={venue} className="flex items-center gap-2 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={filters.venues.includes(venue)}
+                        onChange={(e) => updateFilters({
+                          venues: e.target.checked
+                            ? [...filters.venues, venue]
+                            : filters.venues.filter(selected => selected !== venue)
+                        })}
+                      />
+                      {venue}
+                    </label>
+                  ))}
+                </div>
+              </details>
+              <label className="flex flex-col gap-1">
+                Max price
+                <input
+                  type="number"
+                  min={0}
+                  value={filters.maxPrice ?? ''}
+                  onChange={(e) => updateFilters({ maxPrice: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                  placeholder="Any"
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="flex items-center gap-2 py-1">
+                <input
+                  type="checkbox"
+                  checked={filters.freeOnly}
+                  onChange={(e) => updateFilters({ freeOnly: e.target.checked })}
+                />
+                Free only
+              </label>
+              <span className="py-1 text-gray-500">
+                Showing {visibleEvents.length} of {events.length}
+              </span>
+              {visibleEvents.length !== events.length && (
+                <button onClick={() => setFilters(DEFAULT_FILTERS)} className="py-1 text-blue-600 hover:underline">
+                  Clear filters
+                </button>
+              )}
+            </div>
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Venue
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Event
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Date
-                    </th>
+                    <SortHeader label="Venue" column="venue" filters={filters} onSort={sortBy} />
+                    <SortHeader label="Event" column="eventName" filters={filters} onSort={sortBy} />
+                    <SortHeader label="Date" column="date" filters={filters} onSort={sortBy} />
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Time
                     </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Price
-                    </th>
+                    <SortHeader label="Price" column="price" filters={filters} onSort={sortBy} />
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Link
                     </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {events.map((event, index) => (
-                    <tr key={index}>
+                  {visibleEvents.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-4 text-sm text-gray-500">No events match these filters.</td>
+                    </tr>
+                  )}
+                  {visibleEvents.map((event, index) => (
+                    <tr key={index} className={watchedArtistsByEvent.has(event) ? 'bg-yellow-50' : undefined}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         {event.venue}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-900">
-                        <div>{event.eventName}</div>
+                        <div className="flex items-center gap-2">
+                          <span>
+                            <Highlighted text={event.eventName} artists={watchedArtistsByEvent.get(event) || []} />
+                          </span>
+                          {watchedArtistsByEvent.has(event) && (
+                            <span
+                              title={`Watched: ${(watchedArtistsByEvent.get(event) || []).join(', ')}`}
+                              className="px-1.5 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800"
+                            >
+                              ★ Watched
+                            </span>
+                          )}
+                          <span
+                            title={event.evidence ? `${SOURCE_TITLES[event.source]}, quoting:\n"${event.evidence}"` : SOURCE_TITLES[event.source]}
+                            className={`px-1.5 py-0.5 rounded text-xs ${
+                              event.source === 'llm'
+                                ? 'bg-purple-100 text-purple-800'
+                                : 'bg-green-100 text-green-800'
+                            }`}
+                          >
+                            {event.source === 'adapter' ? event.adapter : event.source === 'structured' ? 'Structured' : 'AI'}
+                          </span>
+                          {event.confidence === 'low' && (
+                            <span
+                              title={(event.confidenceNotes || []).join('\n')}
+                              className="px-1.5 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800"
+                            >
+                              Unverified
+                            </span>
+                          )}
+                          {event.cancelled && (
+                            <span className="px-1.5 py-0.5 rounded text-xs bg-red-100 text-red-800">Cancelled</span>
+                          )}
+                          {event.soldOut && !event.cancelled && (
+                            <span className="px-1.5 py-0.5 rounded text-xs bg-orange-100 text-orange-800">Sold out</span>
+                          )}
+                          {event.sources && event.sources.length > 1 && (
+                            <span
+                              title={`Found on:\n${event.sources.join('\n')}`}
+                              className="px-1.5 py-0.5 rounded text-xs bg-blue-100 text-blue-800"
+                            >
+                              {event.sources.length} sources
+                            </span>
+                          )}
+                        </div>
                         {event.description && (
-                          <div className="text-gray-500 text-xs mt-1">{event.description}</div>
+                          <div className="text-gray-500 text-xs mt-1">
+                            <Highlighted text={event.description} artists={watchedArtistsByEvent.get(event) || []} />
+                          </div>
                         )}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {event.date}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900" title={event.startsAt || event.date}>
+                        {formatEventDate(event)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {event.time}
+                        {formatEventTime(event)}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {event.price || '-'}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900" title={event.price}>
+                        {formatEventPrice(event) || '-'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
                         <a
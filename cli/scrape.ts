@@ -0,0 +1,200 @@
+/**
+ * Runs the scrape pipeline from the command line, without the Next.js server:
+ *
+ *   npm run --silent scrape -- [options] [url...]
+ *
+ * Progress goes to stderr and results to stdout (or --output), so the output
+ * can be piped. Exits 0 when every URL succeeded, 1 when any failed, and 2 on
+ * bad arguments, a missing API key or when --total-timeout runs out.
+ */
+import { readFile, writeFile } from 'fs/promises'
+import { extname } from 'path'
+import { parseArgs } from 'util'
+import { eventsToCsv } from '../lib/events'
+import { toICalendar } from '../lib/ical'
+import { parseListsFile } from '../lib/list-io'
+import { isValidTimezone } from '../lib/normalize'
+import { runScrape } from '../lib/pipeline'
+import { createProvider, needsApiKey, providerConfigFromEnv } from '../lib/providers'
+import type { ScrapeProgress, VenueOptions } from '../lib/types'
+import { isHttpUrl, splitUrlText } from '../lib/urls'
+import { budgetLimitsFromEnv } from '../lib/usage'
+
+const USAGE = `Usage: npm run --silent scrape -- [options] [url...]
+
+Options:
+  -l, --list FILE          URLs to scrape: one per line, or lists exported from the app as JSON or CSV
+      --list-name NAME     with an exported file holding several lists, scrape only this one
+  -f, --format FORMAT      json, csv or ics (default: from the --output extension, else json)
+  -o, --output FILE        write results here instead of stdout
+  -c, --concurrency N      pages loaded at once (default SCRAPE_CONCURRENCY or 4)
+  -m, --model NAME         model to use instead of LLM_MODEL
+      --timeout SECONDS    page load timeout per navigation (default 30)
+      --llm-timeout SECONDS
+                           timeout per model request (default LLM_TIMEOUT_SECONDS)
+      --total-timeout SECONDS
+                           give up on the whole run after this long
+      --timezone ZONE      timezone venue times are read in (default DEFAULT_TIMEZONE or UTC)
+      --name NAME          calendar name for .ics output (default: the list name)
+      --refresh            ignore cached extractions
+      --budget USD         stop model calls once this run has spent this much (default LLM_BUDGET_PER_RUN_USD)
+  -q, --quiet              no progress output
+  -h, --help               show this help
+
+The model and API key come from the environment, as for the server (OPENAI_API_KEY, LLM_*).`
+
+type Format = 'json' | 'csv' | 'ics'
+
+class UsageError extends Error {}
+
+const seconds = (value: string | undefined, flag: string) => {
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!(parsed > 0)) throw new UsageError(`${flag} must be a number of seconds`)
+  return parsed * 1000
+}
+
+// URLs, venue settings and a name from a list file
+async function readListFile(path: string, listName?: string) {
+  const text = await readFile(path, 'utf8')
+  if (!['.json', '.csv'].includes(extname(path).toLowerCase())) {
+    return { urls: splitUrlText(text), venueOptions: {}, name: undefined }
+  }
+
+  let lists = parseListsFile(text)
+  if (listName) {
+    lists = lists.filter(list => list.name === listName)
+    if (lists.length === 0) throw new UsageError(`No list named "${listName}" in ${path}`)
+  }
+  return {
+    urls: lists.flatMap(list => list.urls),
+    venueOptions: Object.assign({}, ...lists.map(list => list.venueOptions || {})) as Record<string, VenueOptions>,
+    name: lists.length === 1 ? lists[0].name : undefined
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      list: { type: 'string', short: 'l' },
+      'list-name': { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+      concurrency: { type: 'string', short: 'c' },
+      model: { type: 'string', short: 'm' },
+      timeout: { type: 'string' },
+      'llm-timeout': { type: 'string' },
+      'total-timeout': { type: 'string' },
+      timezone: { type: 'string' },
+      name: { type: 'string' },
+      refresh: { type: 'boolean' },
+      budget: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`)
+    return 0
+  }
+  if (values.quiet) {
+    console.log = () => {}
+  }
+
+  const list = values.list ? await readListFile(values.list, values['list-name']) : undefined
+  const urls = Array.from(new Set([...positionals, ...(list?.urls || [])]))
+  if (urls.length === 0) throw new UsageError('No URLs given')
+  const invalid = urls.find(url => !isHttpUrl(url))
+  if (invalid) throw new UsageError(`Not an http(s) URL: ${invalid}`)
+
+  const outputExtension = values.output ? extname(values.output).slice(1).toLowerCase() : ''
+  const format = (values.format || (['json', 'csv', 'ics'].includes(outputExtension) ? outputExtension : 'json')) as Format
+  if (!['json', 'csv', 'ics'].includes(format)) throw new UsageError(`Unknown format: ${format}`)
+
+  if (values.timezone && !isValidTimezone(values.timezone)) throw new UsageError(`Unknown timezone: ${values.timezone}`)
+  const concurrency = values.concurrency !== undefined ? parseInt(values.concurrency, 10) : undefined
+  if (concurrency !== undefined && !(concurrency > 0)) throw new UsageError('--concurrency must be a positive number')
+
+  const providerConfig = {
+    ...providerConfigFromEnv(),
+    ...(values.model ? { model: values.model } : {}),
+    ...(values['llm-timeout'] ? { timeoutMs: seconds(values['llm-timeout'], '--llm-timeout') } : {})
+  }
+  if (needsApiKey(providerConfig)) throw new UsageError('OPENAI_API_KEY (or LLM_API_KEY) is not set')
+  const pageTimeoutMs = seconds(values.timeout, '--timeout')
+  const totalTimeoutMs = seconds(values['total-timeout'], '--total-timeout')
+  const budget = budgetLimitsFromEnv()
+  if (values.budget !== undefined) {
+    budget.perRunUsd = Number(values.budget)
+    if (!(budget.perRunUsd > 0)) throw new UsageError('--budget must be an amount in US dollars')
+  }
+
+  const progress = (message: ScrapeProgress) => {
+    if (values.quiet) return
+    if (message.type === 'retrying') {
+      console.error(`↻ ${message.url}: retry ${message.retries} (${message.error})`)
+    } else if (message.type === 'extracted') {
+      console.error(`✓ ${message.url}: ${message.events.length} events`)
+    } else if (message.type === 'failed') {
+      console.error(`✗ ${message.url}: ${message.status.error}`)
+    }
+  }
+
+  if (totalTimeoutMs) {
+    // The browser can't be stopped mid-page from here, so the process just ends
+    setTimeout(() => {
+      console.error(`Gave up after ${totalTimeoutMs / 1000}s (--total-timeout)`)
+      process.exit(2)
+    }, totalTimeoutMs).unref()
+  }
+
+  const result = await runScrape(urls, {
+    provider: await createProvider(providerConfig),
+    concurrency,
+    timezone: values.timezone,
+    venueOptions: list?.venueOptions,
+    cache: { refresh: !!values.refresh },
+    pageTimeoutMs,
+    budget
+  }, progress)
+
+  const name = values.name || list?.name || 'Music Events'
+  const output = format === 'ics'
+    ? toICalendar(result.events, { name })
+    : format === 'csv'
+      ? eventsToCsv(result.events)
+      : JSON.stringify({ generatedAt: new Date().toISOString(), ...result }, null, 2) + '\n'
+
+  if (values.output) {
+    await writeFile(values.output, output)
+  } else {
+    process.stdout.write(output)
+  }
+
+  const failed = result.sources.filter(source => !source.ok)
+  if (!values.quiet) {
+    console.error(`${result.events.length} events from ${urls.length - failed.length} of ${urls.length} URLs`)
+    if (result.usage.requests > 0) {
+      const { requests, promptTokens, completionTokens, costUsd } = result.usage
+      console.error(`${requests} model requests, ${promptTokens} prompt and ${completionTokens} completion tokens, est. $${costUsd.toFixed(4)}`)
+    }
+  }
+  return failed.length > 0 ? 1 : 0
+}
+
+// The pipeline logs progress with console.log; keep stdout for the results
+console.log = console.error
+
+main().then(
+  code => {
+    process.exitCode = code
+  },
+  error => {
+    console.error(error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')
+      ? `${error.message}\n\n${USAGE}`
+      : error)
+    process.exitCode = 2
+  }
+)
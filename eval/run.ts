@@ -0,0 +1,186 @@
+/**
+ * Offline extraction regression suite: serves each fixture under
+ * eval/fixtures from a local static server, runs the full scrape pipeline
+ * against it, and scores the events against the fixture's labels.
+ *
+ *   npm run eval                   replay recorded model responses (mock model if none, outside the totals)
+ *   npm run eval -- --mock         mock model that returns the labels, to test everything but the model
+ *   npm run eval -- --record       call the configured model and save its responses
+ *   npm run eval -- --json name…   machine-readable output, selected fixtures only
+ */
+import { access, mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+import type { ExtractionProvider } from '../lib/providers'
+import type { Recording } from '../lib/providers/recorded'
+import type { Event, SourceStatus, VenueOptions } from '../lib/types'
+import { SCORED_FIELDS, addScores, emptyScore, precision, recall, scoreEvents, type ExpectedEvent, type FixtureScore, type Score } from './score'
+import { serveDirectory } from './server'
+
+const FIXTURES_DIR = resolve(process.cwd(), 'eval/fixtures')
+
+// Recordings include the page URL, so they only replay on the port they were recorded on
+const PORT = parseInt(process.env.EVAL_PORT || '4318', 10)
+
+// A fixture's expected.json
+type FixtureSpec = {
+  // Page to scrape, relative to the fixture directory (default: its page.html)
+  path?: string
+  timezone: string
+  // The moment the page was captured; events before it are past
+  now: string
+  venueOptions?: VenueOptions
+  events: ExpectedEvent[]
+}
+
+type Mode = 'replay' | 'mock' | 'record'
+
+type FixtureResult = {
+  name: string
+  mode: Mode
+  status?: SourceStatus
+  score: FixtureScore
+}
+
+const exists = (path: string) => access(path).then(() => true, () => false)
+
+const percent = (value?: number) => (value === undefined ? '-' : `${Math.round(value * 100)}%`).padStart(5)
+
+// What a perfect model would answer for the fixture
+function labelsAsResponse(events: ExpectedEvent[]) {
+  return {
+    events: events.map(event => ({
+      eventName: event.eventName,
+      date: event.date,
+      ...(event.time ? { time: event.time } : {}),
+      ...(event.venue ? { venue: event.venue } : {}),
+      ...(event.priceMin !== undefined ? { price: event.priceMin === 0 ? 'Free' : `$${event.priceMin}` } : {}),
+      ...(event.url ? { url: event.url } : {}),
+      evidence: event.eventName
+    }))
+  }
+}
+
+function printScore(label: string, score: Score) {
+  const { events, dates } = score
+  console.log(`  ${label.padEnd(10)} precision ${percent(precision(events))}  recall ${percent(recall(events))}  ` +
+    `dates ${percent(dates.total > 0 ? dates.correct / dates.total : undefined)}`)
+  for (const field of SCORED_FIELDS) {
+    const counts = score.fields[field]
+    console.log(`    ${field.padEnd(10)} precision ${percent(precision(counts))}  recall ${percent(recall(counts))}` +
+      `  (${counts.correct}/${counts.predicted} predicted, ${counts.expected} labelled)`)
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const mode: Mode = args.includes('--record') ? 'record' : args.includes('--mock') ? 'mock' : 'replay'
+  const json = args.includes('--json')
+  const only = args.filter(arg => !arg.startsWith('--'))
+
+  // Fixtures are served from localhost, and extractions shouldn't touch the real cache
+  process.env.ALLOW_PRIVATE_URLS = 'true'
+  const dataDir = await mkdtemp(join(tmpdir(), 'music-events-eval-'))
+  process.env.DATA_DIR = dataDir
+
+  // Imported only now, since these modules read the settings above when they load
+  const { runScrape } = await import('../lib/pipeline')
+  const { createProvider, providerConfigFromEnv } = await import('../lib/providers')
+  const { createMockProvider } = await import('../lib/providers/mock')
+  const { createRecordingProvider, createReplayProvider } = await import('../lib/providers/recorded')
+
+  const names = (await readdir(FIXTURES_DIR, { withFileTypes: true }))
+    .filter(entry => entry.isDirectory() && (only.length === 0 || only.includes(entry.name)))
+    .map(entry => entry.name)
+    .sort()
+  if (names.length === 0) {
+    throw new Error(only.length > 0 ? `No fixtures named ${only.join(', ')}` : `No fixtures in ${FIXTURES_DIR}`)
+  }
+
+  const server = await serveDirectory(FIXTURES_DIR, PORT)
+  const results: FixtureResult[] = []
+  try {
+    for (const name of names) {
+      const dir = join(FIXTURES_DIR, name)
+      const spec: FixtureSpec = JSON.parse(await readFile(join(dir, 'expected.json'), 'utf8'))
+      const pageUrl = new URL(spec.path || '', `${server.origin}/${name}/`).toString()
+      // Labels may give event links relative to the page
+      const expected = spec.events.map(event => event.url ? { ...event, url: new URL(event.url, pageUrl).toString() } : event)
+
+      const recordingPath = join(dir, 'recording.json')
+      let provider: ExtractionProvider
+      let fixtureMode = mode
+      let recording: Recording | undefined
+      if (mode === 'record') {
+        recording = { model: '', supportsVision: false, responses: {} }
+        provider = createRecordingProvider(await createProvider(providerConfigFromEnv()), recording)
+      } else if (mode === 'replay' && await exists(recordingPath)) {
+        provider = createReplayProvider(JSON.parse(await readFile(recordingPath, 'utf8')))
+      } else {
+        fixtureMode = 'mock'
+        provider = createMockProvider({ '*': labelsAsResponse(expected) })
+      }
+
+      const { events, sources } = await runScrape([pageUrl], {
+        provider,
+        timezone: spec.timezone,
+        now: new Date(spec.now),
+        venueOptions: spec.venueOptions ? { [pageUrl]: spec.venueOptions } : undefined,
+        cache: { refresh: true }
+      })
+      if (recording) {
+        await writeFile(recordingPath, JSON.stringify(recording, null, 2) + '\n')
+      }
+
+      results.push({ name, mode: fixtureMode, status: sources[0], score: scoreEvents(expected, events) })
+    }
+  } finally {
+    await server.close()
+    await rm(dataDir, { recursive: true, force: true })
+  }
+
+  // The mock model answers with the labels, so its scores say nothing about
+  // extraction and are totalled apart from fixtures that used a real model
+  const modelResults = results.filter(result => result.mode !== 'mock')
+  const mockResults = results.filter(result => result.mode === 'mock')
+  const total = modelResults.reduce((sum, result) => addScores(sum, result.score), emptyScore())
+  const mockTotal = mockResults.reduce((sum, result) => addScores(sum, result.score), emptyScore())
+  const failed = results.filter(result => !result.status?.ok)
+
+  if (json) {
+    console.log(JSON.stringify({
+      fixtures: results,
+      total: modelResults.length > 0 ? total : null,
+      mockTotal: mockResults.length > 0 ? mockTotal : null
+    }, null, 2))
+  } else {
+    const describe = (event: ExpectedEvent | Event) => `${event.eventName} (${'startsAt' in event ? event.startsAt : event.date})`
+    for (const { name, mode: fixtureMode, status, score } of results) {
+      console.log(`\n${name} [${fixtureMode}]${status?.ok ? '' : ` FAILED: ${status?.error}`}`)
+      printScore('events', score)
+      score.missing.forEach(event => console.log(`    missing: ${describe(event)}`))
+      score.extra.forEach(event => console.log(`    extra:   ${describe(event)}`))
+    }
+    if (modelResults.length > 0) {
+      console.log(`\nAll ${modelResults.length} fixture(s) with model responses`)
+      printScore('events', total)
+    }
+    if (mockResults.length > 0) {
+      console.log(`\n${mockResults.length} fixture(s) on the mock model; these don't measure extraction`)
+      printScore('events', mockTotal)
+    }
+    if (mode === 'replay' && mockResults.length > 0) {
+      console.log(`\nNo recording.json for ${mockResults.map(result => result.name).join(', ')}; run \`npm run eval -- --record\` to add one`)
+    }
+  }
+
+  if (failed.length > 0) {
+    console.error(`\n${failed.length} fixture(s) failed to scrape: ${failed.map(result => result.name).join(', ')}`)
+    process.exitCode = 1
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,135 @@
+import { diceSimilarity, foldText, isSameArtist, isSameVenue } from '../lib/dedupe'
+import type { Event } from '../lib/types'
+
+// A hand-labelled event, as it appears in a fixture's expected.json
+export type ExpectedEvent = {
+  eventName: string
+  // YYYY-MM-DD in the venue's timezone
+  date: string
+  // HH:MM, 24-hour; left out when the page gives no time
+  time?: string
+  venue?: string
+  // Lowest ticket price; 0 for free shows
+  priceMin?: number
+  url?: string
+}
+
+export const SCORED_FIELDS = ['eventName', 'venue', 'date', 'time', 'priceMin', 'url'] as const
+export type ScoredField = typeof SCORED_FIELDS[number]
+
+// `correct` of `predicted` values were right, out of `expected` labelled ones
+export type Counts = { correct: number; predicted: number; expected: number }
+
+export type Score = {
+  events: Counts
+  fields: Record<ScoredField, Counts>
+  // Of the events that were found, how many have the right date
+  dates: { correct: number; total: number }
+}
+
+export type FixtureScore = Score & {
+  missing: ExpectedEvent[]
+  extra: Event[]
+}
+
+type Values = Partial<Record<ScoredField, string | number>>
+
+// The scored fields of a pipeline event, in the same form as the labels
+function actualValues(event: Event): Values {
+  return {
+    eventName: event.eventName,
+    venue: event.venue,
+    date: event.startsAt?.slice(0, 10),
+    time: event.startsAt?.includes('T') ? event.startsAt.slice(11, 16) : undefined,
+    priceMin: event.isFree ? 0 : event.priceMin,
+    url: event.url
+  }
+}
+
+const trimUrl = (url: string) => url.replace(/#.*$/, '').replace(/\/+$/, '')
+
+function isCorrect(field: ScoredField, expected: string | number, actual: string | number): boolean {
+  switch (field) {
+    case 'eventName':
+      return diceSimilarity(foldText(String(expected)), foldText(String(actual))) >= 0.9
+    case 'venue':
+      return !!foldText(String(actual)) && isSameVenue(String(expected), String(actual))
+    case 'url':
+      return trimUrl(String(expected)) === trimUrl(String(actual))
+    default:
+      return expected === actual
+  }
+}
+
+const emptyCounts = (): Counts => ({ correct: 0, predicted: 0, expected: 0 })
+
+export const emptyScore = (): Score => ({
+  events: emptyCounts(),
+  fields: Object.fromEntries(SCORED_FIELDS.map(field => [field, emptyCounts()])) as Record<ScoredField, Counts>,
+  dates: { correct: 0, total: 0 }
+})
+
+/**
+ * Pairs each labelled event with the extracted event for the same act
+ * (preferring one on the right date) and counts, per field, how many
+ * extracted values were right. Values on unmatched extracted events count
+ * against precision; labelled values with no correct match against recall.
+ */
+export function scoreEvents(expected: ExpectedEvent[], actual: Event[]): FixtureScore {
+  const actualFields = actual.map(actualValues)
+
+  const candidates: { e: number; a: number; score: number }[] = []
+  expected.forEach((label, e) => actual.forEach((event, a) => {
+    if (!isSameArtist(label.eventName, event.eventName)) return
+    const nameScore = diceSimilarity(foldText(label.eventName), foldText(event.eventName))
+    candidates.push({ e, a, score: nameScore + (actualFields[a].date === label.date ? 1 : 0) })
+  }))
+  candidates.sort((x, y) => y.score - x.score)
+
+  const pairs = new Map<number, number>()
+  const used = new Set<number>()
+  for (const { e, a } of candidates) {
+    if (pairs.has(e) || used.has(a)) continue
+    pairs.set(e, a)
+    used.add(a)
+  }
+
+  const score = emptyScore()
+  score.events = { correct: pairs.size, predicted: actual.length, expected: expected.length }
+
+  for (const field of SCORED_FIELDS) {
+    const counts = score.fields[field]
+    counts.predicted = actualFields.filter(values => values[field] !== undefined && values[field] !== '').length
+    counts.expected = expected.filter(label => label[field] !== undefined).length
+    pairs.forEach((a, e) => {
+      const label = expected[e][field]
+      const value = actualFields[a][field]
+      if (label !== undefined && value !== undefined && isCorrect(field, label, value)) counts.correct++
+    })
+  }
+
+  score.dates = { correct: score.fields.date.correct, total: pairs.size }
+
+  return {
+    ...score,
+    missing: expected.filter((_, e) => !pairs.has(e)),
+    extra: actual.filter((_, a) => !used.has(a))
+  }
+}
+
+export function addScores(total: Score, score: Score): Score {
+  const add = (a: Counts, b: Counts): Counts => ({
+    correct: a.correct + b.correct,
+    predicted: a.predicted + b.predicted,
+    expected: a.expected + b.expected
+  })
+  return {
+    events: add(total.events, score.events),
+    fields: Object.fromEntries(SCORED_FIELDS.map(field => [field, add(total.fields[field], score.fields[field])])) as Record<ScoredField, Counts>,
+    dates: { correct: total.dates.correct + score.dates.correct, total: total.dates.total + score.dates.total }
+  }
+}
+
+// Precision and recall as fractions; undefined when there was nothing to measure
+export const precision = (counts: Counts) => counts.predicted > 0 ? counts.correct / counts.predicted : undefined
+export const recall = (counts: Counts) => counts.expected > 0 ? counts.correct / counts.expected : undefined
@@ -0,0 +1,58 @@
+import { readFile } from 'fs/promises'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+import { extname, join, normalize, sep } from 'path'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon'
+}
+
+export type StaticServer = {
+  // Origin the files are served from, e.g. http://127.0.0.1:4318
+  origin: string
+  close: () => Promise<void>
+}
+
+/**
+ * Serves the files under `root` on localhost, so fixture pages load in the
+ * browser exactly as a live site would. A directory serves its page.html.
+ * Port 0 picks a free port, but recordings embed the page URL in the
+ * prompt, so fixtures are recorded and replayed on a fixed port.
+ */
+export function serveDirectory(root: string, port: number): Promise<StaticServer> {
+  const server = createServer(async (request, response) => {
+    const path = decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname)
+    const file = normalize(join(root, path.endsWith('/') ? `${path}page.html` : path))
+    if (!file.startsWith(normalize(root) + sep)) {
+      response.writeHead(403).end()
+      return
+    }
+
+    try {
+      const body = await readFile(file)
+      response.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' })
+      response.end(body)
+    } catch {
+      response.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found')
+    }
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => {
+      const { port: actualPort } = server.address() as AddressInfo
+      resolve({
+        origin: `http://127.0.0.1:${actualPort}`,
+        close: () => new Promise(done => server.close(() => done()))
+      })
+    })
+  })
+}
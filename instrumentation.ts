@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Serverless hosts freeze the process between requests; they call /api/schedule from a cron job instead
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.SCHEDULER !== 'off') {
+    const { startScheduler } = await import('./lib/scheduler')
+    startScheduler()
+  }
+}
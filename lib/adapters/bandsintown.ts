@@ -0,0 +1,27 @@
+import type { SiteAdapter } from '.'
+import { readCards, readJsonLdEvents, toAdapterEvent } from './helpers'
+import type { Event } from '../types'
+
+export const bandsintown: SiteAdapter = {
+  name: 'Bandsintown',
+  urlPatterns: [/^https?:\/\/(www\.)?bandsintown\.com\//i],
+  // The Bandsintown widget renders straight into the host page's DOM
+  domSignature: '.bit-widget, .bit-widget-initializer, script[src*="widget.bandsintown.com"]',
+
+  async extract(page, url) {
+    const cards = await readCards(page, {
+      item: '.bit-event',
+      eventName: '.bit-lineup, .bit-event-name, .bit-details-inner .bit-title',
+      date: '.bit-date',
+      time: '.bit-time',
+      venue: '.bit-venue',
+      link: 'a.bit-event-data, a[href*="bandsintown.com"]'
+    })
+    const events = cards
+      // Artist widgets list the artist in the lineup; venue widgets list the act
+      .map(card => toAdapterEvent({ ...card, eventName: card.eventName || card.venue }, url, this.name))
+      .filter((event): event is Event => event !== null)
+
+    return events.length > 0 ? events : readJsonLdEvents(page, this.name)
+  }
+}
@@ -0,0 +1,52 @@
+import type { SiteAdapter } from '.'
+import { findObjects, readCards, readNextData, stringAt, toAdapterEvent, valueAt } from './helpers'
+import type { Event } from '../types'
+
+const formatPrice = (price: unknown) => {
+  const amount = valueAt(price, 'amount')
+  if (typeof amount !== 'number') return undefined
+  // DICE amounts are in minor units
+  return amount === 0 ? 'Free' : `${(amount / 100).toFixed(2)} ${stringAt(price, 'currency') || ''}`.trim()
+}
+
+export const dice: SiteAdapter = {
+  name: 'DICE',
+  urlPatterns: [/^https?:\/\/(www\.)?dice\.fm\//i],
+  // The DICE event list widget venues embed on their own sites
+  domSignature: '#dice-event-list-widget, [class*="dice_events"], script[src*="widgets.dice.fm"]',
+
+  async extract(page, url) {
+    const events = findObjects(await readNextData(page), node =>
+      typeof node.name === 'string' && stringAt(node, 'dates', 'event_start_date') !== undefined
+    ).map(node => {
+      const startsAt = stringAt(node, 'dates', 'event_start_date')
+      const permName = stringAt(node, 'perm_name')
+      return toAdapterEvent({
+        eventName: stringAt(node, 'name'),
+        startsAt,
+        date: startsAt?.slice(0, 10),
+        venue: stringAt(node, 'venues', 0, 'name') || stringAt(node, 'venue'),
+        price: formatPrice(node.price),
+        description: stringAt(node, 'about', 'description'),
+        url: permName ? `https://dice.fm/event/${permName}` : stringAt(node, 'url'),
+        soldOut: node.status === 'sold-out',
+        cancelled: node.status === 'cancelled'
+      }, url, this.name)
+    })
+
+    if (events.length > 0) {
+      return events.filter((event): event is Event => event !== null)
+    }
+
+    // Embedded widget: read the rendered listing
+    const cards = await readCards(page, {
+      item: '[class*="dice_event-listing"], [class*="dice_events"] article',
+      eventName: '[class*="dice_event-title"], h3, h2',
+      date: '[class*="dice_event-date"], time',
+      venue: '[class*="dice_event-venue"]',
+      price: '[class*="dice_event-price"], [class*="dice_price"]',
+      startsAtAttribute: { selector: 'time', attribute: 'datetime' }
+    })
+    return cards.map(card => toAdapterEvent(card, url, this.name)).filter((event): event is Event => event !== null)
+  }
+}
@@ -0,0 +1,38 @@
+import type { SiteAdapter } from '.'
+import { findObjects, readJsonLdEvents, readWindowValue, stringAt, toAdapterEvent, valueAt } from './helpers'
+import type { Event } from '../types'
+
+// Organizer, venue and search pages all ship their listings in window.__SERVER_DATA__
+export const eventbrite: SiteAdapter = {
+  name: 'Eventbrite',
+  urlPatterns: [/^https?:\/\/([a-z]+\.)?eventbrite\.[a-z.]+\//i],
+
+  async extract(page, url) {
+    const serverData = await readWindowValue(page, '__SERVER_DATA__')
+    const listings = findObjects(serverData, node =>
+      (typeof node.name === 'string' || stringAt(node, 'name', 'text') !== undefined) &&
+      (typeof node.start_date === 'string' || stringAt(node, 'start', 'local') !== undefined)
+    )
+
+    const events = listings.map(node => {
+      const startDate = stringAt(node, 'start_date')
+      const startTime = stringAt(node, 'start_time')
+      const startLocal = stringAt(node, 'start', 'local')
+      return toAdapterEvent({
+        eventName: stringAt(node, 'name') ?? stringAt(node, 'name', 'text'),
+        startsAt: startLocal || (startTime ? `${startDate}T${startTime}` : startDate),
+        date: startDate || startLocal?.slice(0, 10),
+        venue: stringAt(node, 'primary_venue', 'name') || stringAt(node, 'venue', 'name'),
+        price: stringAt(node, 'ticket_availability', 'minimum_ticket_price', 'display') ||
+          (node.is_free === true || valueAt(node, 'ticket_availability', 'is_free') === true ? 'Free' : undefined),
+        description: stringAt(node, 'summary') || stringAt(node, 'description', 'text'),
+        url: stringAt(node, 'url') || stringAt(node, 'tickets_url'),
+        soldOut: valueAt(node, 'ticket_availability', 'is_sold_out') === true,
+        cancelled: node.is_cancelled === true || node.status === 'canceled'
+      }, url, this.name)
+    }).filter((event): event is Event => event !== null)
+
+    // Single-event pages only carry the event's JSON-LD
+    return events.length > 0 ? events : readJsonLdEvents(page, this.name)
+  }
+}
@@ -0,0 +1,152 @@
+import type { Frame, Page } from 'playwright'
+import { parseStructuredEvents } from '../structured-data'
+import type { Event } from '../types'
+import { resolveHttpUrl } from '../urls'
+
+type JsonObject = { [key: string]: unknown }
+
+export type AdapterEventFields = {
+  eventName?: string
+  venue?: string
+  date?: string
+  time?: string
+  startsAt?: string
+  price?: string
+  description?: string
+  url?: string
+  soldOut?: boolean
+  cancelled?: boolean
+}
+
+export const hostnameOf = (url: string) => new URL(url).hostname.replace('www.', '')
+
+/**
+ * Fills in the fields every `Event` needs, the same way the LLM path does, so
+ * adapter output goes through normalization like everything else.
+ */
+export function toAdapterEvent(fields: AdapterEventFields, pageUrl: string, adapter: string): Event | null {
+  const eventName = fields.eventName?.replace(/\s+/g, ' ').trim()
+  if (!eventName || (!fields.date && !fields.startsAt)) return null
+
+  // Anything but an http(s) link keeps the listing page
+  const url = (fields.url && resolveHttpUrl(fields.url, pageUrl)) || pageUrl
+
+  return {
+    venue: fields.venue?.trim() || hostnameOf(pageUrl),
+    eventName,
+    date: fields.date?.trim() || fields.startsAt?.slice(0, 10) || 'TBA',
+    time: fields.time?.trim() || 'TBA',
+    price: fields.price?.trim() || undefined,
+    description: fields.description?.trim() || undefined,
+    url,
+    source: 'adapter',
+    adapter,
+    startsAt: fields.startsAt,
+    soldOut: fields.soldOut,
+    cancelled: fields.cancelled
+  }
+}
+
+/**
+ * The value at `path` inside parsed JSON, e.g. `valueAt(node, 'venues', 0, 'name')`,
+ * or undefined when any step along the way is missing or not an object.
+ */
+export function valueAt(value: unknown, ...path: (string | number)[]): unknown {
+  let current = value
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return undefined
+    current = (current as Record<string | number, unknown>)[key]
+  }
+  return current
+}
+
+export function stringAt(value: unknown, ...path: (string | number)[]): string | undefined {
+  const found = valueAt(value, ...path)
+  return typeof found === 'string' ? found : undefined
+}
+
+/**
+ * Depth-first search through embedded JSON (e.g. a Next.js `__NEXT_DATA__`
+ * payload) for every object matching `predicate`.
+ */
+export function findObjects(value: unknown, predicate: (node: JsonObject) => boolean, found: JsonObject[] = []): JsonObject[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => findObjects(item, predicate, found))
+  } else if (value && typeof value === 'object') {
+    const node = value as JsonObject
+    if (predicate(node)) {
+      found.push(node)
+    } else {
+      Object.values(node).forEach(child => findObjects(child, predicate, found))
+    }
+  }
+  return found
+}
+
+export async function readNextData(page: Page | Frame): Promise<unknown> {
+  return page.evaluate(() => {
+    const script = document.getElementById('__NEXT_DATA__')
+    try {
+      return script?.textContent ? JSON.parse(script.textContent) : null
+    } catch {
+      return null
+    }
+  })
+}
+
+// A global the page's own scripts assigned, e.g. `window.__SERVER_DATA__`
+export async function readWindowValue(page: Page | Frame, name: string): Promise<unknown> {
+  return page.evaluate(key => {
+    const value = (window as unknown as Record<string, unknown>)[key]
+    return value === undefined ? null : JSON.parse(JSON.stringify(value))
+  }, name)
+}
+
+export async function readJsonLdEvents(page: Page | Frame, adapter: string): Promise<Event[]> {
+  const blocks = await page.evaluate(() =>
+    Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map(script => script.textContent || '')
+  )
+  return parseStructuredEvents(blocks, page.url()).events.map(event => ({ ...event, source: 'adapter', adapter }))
+}
+
+export type CardSelectors = {
+  // One element per event
+  item: string
+  eventName: string
+  date?: string
+  time?: string
+  venue?: string
+  price?: string
+  // Element whose href is the event's own page; defaults to the first link in the card
+  link?: string
+  // Attribute holding a machine-readable start (e.g. `datetime` on a <time>)
+  startsAtAttribute?: { selector: string; attribute: string }
+}
+
+// Reads events out of a rendered listing, one card element per event
+export async function readCards(page: Page | Frame, selectors: CardSelectors): Promise<AdapterEventFields[]> {
+  return page.evaluate(spec => {
+    const textOf = (root: Element, selector?: string) =>
+      selector ? (root.querySelector(selector)?.textContent || '').replace(/\s+/g, ' ').trim() : ''
+
+    return Array.from(document.querySelectorAll(spec.item)).map(card => {
+      const link = (spec.link ? card.querySelector(spec.link) : card.querySelector('a[href]')) as HTMLAnchorElement | null
+      const startsAt = spec.startsAtAttribute
+        ? card.querySelector(spec.startsAtAttribute.selector)?.getAttribute(spec.startsAtAttribute.attribute) || undefined
+        : undefined
+      const text = (card.textContent || '').toLowerCase()
+
+      return {
+        eventName: textOf(card, spec.eventName),
+        date: textOf(card, spec.date),
+        time: textOf(card, spec.time),
+        venue: textOf(card, spec.venue),
+        price: textOf(card, spec.price),
+        url: link?.href,
+        startsAt,
+        soldOut: text.includes('sold out'),
+        cancelled: text.includes('cancelled') || text.includes('canceled')
+      }
+    })
+  }, selectors)
+}
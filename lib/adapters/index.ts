@@ -0,0 +1,35 @@
+import type { Page } from 'playwright'
+import type { Event } from '../types'
+import { bandsintown } from './bandsintown'
+import { dice } from './dice'
+import { eventbrite } from './eventbrite'
+import { songkick } from './songkick'
+import { ticketweb } from './ticketweb'
+
+/**
+ * Extracts events from a ticketing platform or embedded widget without the
+ * LLM, using its embedded JSON or known markup.
+ */
+export type SiteAdapter = {
+  name: string
+  // Pages on the platform itself
+  urlPatterns?: RegExp[]
+  // Selector for the platform's widget when it's embedded on a venue's own site
+  domSignature?: string
+  extract(page: Page, url: string): Promise<Event[]>
+}
+
+// Checked in order; the first adapter that matches handles the page
+export const adapters: SiteAdapter[] = [eventbrite, dice, ticketweb, songkick, bandsintown]
+
+export async function findAdapter(page: Page, url: string): Promise<SiteAdapter | undefined> {
+  const byUrl = adapters.find(adapter => adapter.urlPatterns?.some(pattern => pattern.test(url)))
+  if (byUrl) return byUrl
+
+  for (const adapter of adapters) {
+    if (adapter.domSignature && await page.$(adapter.domSignature)) {
+      return adapter
+    }
+  }
+  return undefined
+}
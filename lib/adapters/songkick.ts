@@ -0,0 +1,15 @@
+import type { SiteAdapter } from '.'
+import { readJsonLdEvents } from './helpers'
+
+// Songkick's own pages carry one MusicEvent JSON-LD block per listing, and its
+// venue widget renders the same markup inside an iframe
+export const songkick: SiteAdapter = {
+  name: 'Songkick',
+  urlPatterns: [/^https?:\/\/(www\.)?songkick\.com\//i],
+  domSignature: 'iframe[src*="songkick.com"], a.songkick-widget, script[src*="widget-app.songkick.com"]',
+
+  async extract(page) {
+    const widget = page.frames().find(frame => frame !== page.mainFrame() && /songkick\.com/.test(frame.url()))
+    return readJsonLdEvents(widget || page, this.name)
+  }
+}
@@ -0,0 +1,26 @@
+import type { SiteAdapter } from '.'
+import { readCards, readJsonLdEvents, toAdapterEvent } from './helpers'
+import type { Event } from '../types'
+
+export const ticketweb: SiteAdapter = {
+  name: 'Ticketweb',
+  urlPatterns: [/^https?:\/\/(www\.)?ticketweb\.(com|ca|co\.uk)\//i],
+  // Venue sites that embed Ticketweb's listing widget
+  domSignature: 'iframe[src*="ticketweb."], script[src*="ticketweb."]',
+
+  async extract(page, url) {
+    const jsonLd = await readJsonLdEvents(page, this.name)
+    if (jsonLd.length > 0) return jsonLd
+
+    const cards = await readCards(page, {
+      item: '.event-list .media, li.theme-mod, [class*="event-item"]',
+      eventName: '.event-name, .theme-title, h4, h3',
+      date: '.event-date, .theme-subTitle, time',
+      venue: '.event-venue, .theme-location',
+      price: '.event-price, .price',
+      link: 'a[href*="/event/"]',
+      startsAtAttribute: { selector: 'time', attribute: 'datetime' }
+    })
+    return cards.map(card => toAdapterEvent(card, url, this.name)).filter((event): event is Event => event !== null)
+  }
+}
@@ -0,0 +1,48 @@
+import { formatEventDate } from './events'
+import type { ScrapeRun, URLList } from './types'
+
+// Give up on a slow webhook rather than holding up the run that triggered it
+const WEBHOOK_TIMEOUT_MS = 10000
+
+/**
+ * Posts a run's new watched-artist matches to `WATCHLIST_WEBHOOK_URL`, if
+ * set. The payload has a `text` summary (which Slack and Discord-style
+ * incoming webhooks display as is) plus the matches as structured data.
+ * Failures are logged, never thrown: a broken webhook shouldn't fail a scrape.
+ */
+export async function sendWatchAlerts(list: Pick<URLList, 'id' | 'name'>, run: ScrapeRun): Promise<void> {
+  const webhookUrl = process.env.WATCHLIST_WEBHOOK_URL
+  const matches = run.watchAlerts || []
+  if (!webhookUrl || matches.length === 0) return
+
+  const lines = matches.map(({ artist, event }) =>
+    `• ${artist}: ${event.eventName} at ${event.venue}, ${formatEventDate(event)} ${event.url}`
+  )
+  const payload = {
+    text: `New shows by watched artists in "${list.name}":\n${lines.join('\n')}`,
+    list: { id: list.id, name: list.name },
+    runId: run.id,
+    matches: matches.map(({ artist, event }) => ({
+      artist,
+      eventName: event.eventName,
+      venue: event.venue,
+      date: event.date,
+      startsAt: event.startsAt,
+      url: event.url
+    }))
+  }
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      console.error(`Watchlist webhook returned HTTP ${response.status}`)
+    }
+  } catch (error) {
+    console.error('Error sending watchlist webhook:', error)
+  }
+}
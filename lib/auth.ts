@@ -0,0 +1,97 @@
+// Used by middleware.ts, so only Web APIs here: no Node `crypto` or `fs`
+
+export const SESSION_COOKIE = 'session'
+
+// How long a login lasts
+export const SESSION_DAYS = parseInt(process.env.SESSION_DAYS || '30', 10)
+
+// Name recorded for logins with the shared APP_PASSWORD
+const SHARED_USER = 'team'
+
+export type AuthConfig = {
+  // Username → password; the shared password is stored under SHARED_USER
+  users: Record<string, string>
+  // Signs session cookies and calendar feed keys
+  secret: string
+}
+
+/**
+ * Login settings from `APP_PASSWORD` (one password for everyone) and/or
+ * `APP_USERS` (`name:password` pairs separated by commas). Null when neither
+ * is set, in which case the app is open to anyone who can reach it.
+ */
+export function authConfigFromEnv(): AuthConfig | null {
+  const users: Record<string, string> = {}
+  for (const entry of (process.env.APP_USERS || '').split(',')) {
+    const separator = entry.indexOf(':')
+    if (separator > 0) users[entry.slice(0, separator).trim()] = entry.slice(separator + 1)
+  }
+  if (process.env.APP_PASSWORD) users[SHARED_USER] = process.env.APP_PASSWORD
+  if (Object.keys(users).length === 0) return null
+
+  // Without AUTH_SECRET, changing a password also signs everyone out
+  return { users, secret: process.env.AUTH_SECRET || Object.entries(users).flat().join('\n') }
+}
+
+// Compares without returning early, so response times don't reveal how much matched
+export function safeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+  return difference === 0
+}
+
+async function sign(secret: string, value: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(value)))
+  return btoa(String.fromCharCode(...Array.from(signature))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * The user a username/password pair belongs to, or null. With only a shared
+ * password configured the username can be left empty.
+ */
+export function checkCredentials(config: AuthConfig, username: string, password: string): string | null {
+  const user = username.trim() || SHARED_USER
+  const expected = config.users[user]
+  const matches = safeEqual(expected ?? '', password)
+  return matches && expected !== undefined ? user : null
+}
+
+export async function createSessionToken(config: AuthConfig, user: string, now: Date = new Date()): Promise<string> {
+  const payload = `${encodeURIComponent(user)}.${now.getTime() + SESSION_DAYS * 86400000}`
+  return `${payload}.${await sign(config.secret, payload)}`
+}
+
+// The signed-in user, or null for a missing, tampered or expired token
+export async function verifySessionToken(config: AuthConfig, token: string | undefined, now: Date = new Date()): Promise<string | null> {
+  // Usernames may contain dots; the expiry and signature never do
+  const parts = (token || '').split('.')
+  const signature = parts.pop()
+  const expires = parts.pop()
+  const user = parts.join('.')
+  if (!user || !expires || !signature) return null
+  if (!safeEqual(await sign(config.secret, `${user}.${expires}`), signature)) return null
+  if (parseInt(expires, 10) < now.getTime()) return null
+
+  const name = decodeURIComponent(user)
+  // Removing a user from APP_USERS ends their sessions
+  return config.users[name] !== undefined ? name : null
+}
+
+/**
+ * Key for `?key=` on a list's calendar feed URL: calendar apps can't log in,
+ * so feeds are authorized by this instead of a session cookie. Each list has
+ * its own key, which opens that list's feed and nothing else.
+ */
+export function calendarFeedKey(config: AuthConfig, listId: string): Promise<string> {
+  return sign(config.secret, `calendar-feed:${listId}`)
+}
+
+// Bearer token accepted by the API for scripts: the shared password, if one is set
+export function isValidBearer(config: AuthConfig, header: string | null): boolean {
+  const password = config.users[SHARED_USER]
+  return !!password && !!header && safeEqual(header, `Bearer ${password}`)
+}
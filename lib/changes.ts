@@ -0,0 +1,77 @@
+import { foldText, isSameArtist, isSameEvent, isSameVenue } from './dedupe'
+import { isUpcoming } from './events'
+import type { Event, EventChange, RunChanges, ScrapeRun } from './types'
+
+function priceKey(event: Event): string | undefined {
+  if (event.isFree) return 'free'
+  if (event.priceMin !== undefined) return `${event.priceMin}-${event.priceMax}-${event.currency || ''}`
+  return event.price ? foldText(event.price) : undefined
+}
+
+// Only a price on both sides counts; a venue dropping the price from its listing isn't news
+function priceChanged(change: EventChange): boolean {
+  const before = priceKey(change.previous)
+  const after = priceKey(change.event)
+  return !!before && !!after && before !== after
+}
+
+/**
+ * Compares a run's events with the previous run of the same list. Events are
+ * matched as in deduplication (venue, day and artist); an unmatched event
+ * whose artist still plays the same venue on another date was rescheduled.
+ *
+ * Shows that vanished are only reported for venues this run scraped
+ * successfully, and only while still upcoming, so a timeout or last night's
+ * show doesn't read as a cancellation.
+ */
+export function diffRuns(
+  previous: Pick<ScrapeRun, 'id' | 'events'>,
+  current: Pick<ScrapeRun, 'events' | 'sources'>,
+  now: Date = new Date()
+): RunChanges {
+  const unmatched = [...previous.events]
+  const take = (predicate: (event: Event) => boolean) => {
+    const index = unmatched.findIndex(predicate)
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0]
+  }
+
+  const matched: EventChange[] = []
+  const unmatchedCurrent: Event[] = []
+  for (const event of current.events) {
+    const match = take(earlier => isSameEvent(earlier, event))
+    if (match) {
+      matched.push({ event, previous: match })
+    } else {
+      unmatchedCurrent.push(event)
+    }
+  }
+
+  const added: Event[] = []
+  const rescheduled: EventChange[] = []
+  for (const event of unmatchedCurrent) {
+    const match = take(earlier => isSameVenue(earlier.venue, event.venue) && isSameArtist(earlier.eventName, event.eventName))
+    if (match) {
+      rescheduled.push({ event, previous: match })
+    } else {
+      added.push(event)
+    }
+  }
+
+  const scraped = new Set(current.sources.filter(status => status.ok).map(status => status.url))
+  const removed = unmatched.filter(event =>
+    isUpcoming(event, now) && (!event.sources || event.sources.some(url => scraped.has(url)))
+  )
+
+  return {
+    previousRunId: previous.id,
+    added,
+    rescheduled,
+    priceChanged: [...matched, ...rescheduled].filter(priceChanged),
+    cancelled: matched.filter(change => change.event.cancelled && !change.previous.cancelled).map(change => change.event),
+    removed
+  }
+}
+
+export const hasChanges = (changes: RunChanges) =>
+  changes.added.length + changes.rescheduled.length + changes.priceChanged.length +
+    changes.cancelled.length + changes.removed.length > 0
@@ -0,0 +1,67 @@
+// Rough size of a token for English text; close enough to budget prompts
+const CHARS_PER_TOKEN = 4
+
+// Text sent per model call; the prompt and response need room too
+export const DEFAULT_CHUNK_TOKENS = parseInt(process.env.EXTRACTION_CHUNK_TOKENS || '6000', 10)
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN)
+
+// Splits on the coarsest separator that makes the pieces fit: blank lines
+// between sections, then lines, then words, then a hard cut
+function splitToFit(text: string, maxChars: number, separators = ['\n\n', '\n', ' ']): string[] {
+  if (text.length <= maxChars) return [text]
+
+  const [separator, ...rest] = separators
+  if (separator === undefined) {
+    const pieces: string[] = []
+    for (let i = 0; i < text.length; i += maxChars) {
+      pieces.push(text.slice(i, i + maxChars))
+    }
+    return pieces
+  }
+
+  return text.split(separator).flatMap(piece => splitToFit(piece, maxChars, rest).map(part => part + separator))
+}
+
+/**
+ * Splits page text into chunks of at most `maxTokens` (estimated), breaking
+ * between sections or lines so no event listing is cut mid-way when it can
+ * be avoided.
+ */
+export function chunkText(text: string, maxTokens = DEFAULT_CHUNK_TOKENS): string[] {
+  const maxChars = Math.max(1, maxTokens) * CHARS_PER_TOKEN
+  const chunks: string[] = []
+  let current = ''
+
+  for (const piece of splitToFit(text, maxChars)) {
+    if (current && current.length + piece.length > maxChars) {
+      chunks.push(current.trim())
+      current = ''
+    }
+    current += piece
+  }
+  if (current.trim()) chunks.push(current.trim())
+
+  return chunks.length > 0 ? chunks : ['']
+}
+
+/**
+ * Pairs text chunks with screenshot tiles by their position down the page,
+ * so each model call sees a slice of text alongside roughly the same part of
+ * the page. Every chunk is sent once; a tile is reused for neighbouring
+ * chunks when there are fewer tiles, and extra tiles go out on their own
+ * with empty content when there are fewer chunks.
+ */
+export function pairChunksWithTiles(chunks: string[], tiles: string[]): { content: string; screenshot: string }[] {
+  if (tiles.length <= chunks.length) {
+    return chunks.map((content, i) => ({ content, screenshot: tiles[Math.floor((i * tiles.length) / chunks.length)] ?? '' }))
+  }
+
+  let previous = -1
+  return tiles.map((screenshot, i) => {
+    const chunk = Math.floor((i * chunks.length) / tiles.length)
+    const content = chunk !== previous ? chunks[chunk] : ''
+    previous = chunk
+    return { content, screenshot }
+  })
+}
@@ -0,0 +1,66 @@
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>
+
+/**
+ * Returns a function that runs at most `concurrency` tasks at once, queueing
+ * the rest in the order they were submitted.
+ */
+export function createLimiter(concurrency: number): Limiter {
+  const limit = Math.max(1, Math.floor(concurrency))
+  const queue: (() => void)[] = []
+  let active = 0
+
+  const next = () => {
+    if (active >= limit) return
+    const start = queue.shift()
+    if (start) {
+      active++
+      start()
+    }
+  }
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--
+            next()
+          })
+      })
+      next()
+    })
+}
+
+/**
+ * Like `createLimiter`, but with a separate cap for each key (e.g. a domain).
+ */
+export function createKeyedLimiter(concurrencyPerKey: number): <T>(key: string, task: () => Promise<T>) => Promise<T> {
+  const limiters = new Map<string, Limiter>()
+
+  return (key, task) => {
+    let limiter = limiters.get(key)
+    if (!limiter) {
+      limiter = createLimiter(concurrencyPerKey)
+      limiters.set(key, limiter)
+    }
+    return limiter(task)
+  }
+}
+
+/**
+ * Returns a function that resolves once at least `intervalMs` has passed
+ * since the previous call for the same key resolved, so calls for one key
+ * (e.g. a domain) are spaced out. Keys are remembered for the life of the
+ * process, so the spacing holds across separate runs too.
+ */
+export function createThrottle(intervalMs: number): (key: string) => Promise<void> {
+  const nextSlot = new Map<string, number>()
+
+  return key => {
+    const now = Date.now()
+    const slot = Math.max(now, nextSlot.get(key) || 0)
+    nextSlot.set(key, slot + intervalMs)
+    return new Promise(resolve => setTimeout(resolve, slot - now))
+  }
+}
@@ -0,0 +1,127 @@
+import { zonedParts } from './normalize'
+
+type CronField = { values: Set<number>; any: boolean }
+
+type CronSchedule = {
+  minutes: CronField
+  hours: CronField
+  daysOfMonth: CronField
+  months: CronField
+  daysOfWeek: CronField
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// Far enough to find "0 0 29 2 *" (Feb 29th) from any starting point
+const MAX_SEARCH_DAYS = 366 * 8
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const named = names?.indexOf(value.toLowerCase()) ?? -1
+  if (named !== -1) return named + min
+  if (!/^\d+$/.test(value)) throw new Error(`Invalid cron value "${value}"`)
+  return parseInt(value, 10)
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): CronField {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10)
+    if (!(step > 0)) throw new Error(`Invalid cron step in "${part}"`)
+
+    let start = min
+    let end = max
+    if (range !== '*') {
+      const [from, to] = range.split('-')
+      start = parseValue(from, min, names)
+      // "5/15" means every 15 starting at 5
+      end = to !== undefined ? parseValue(to, min, names) : stepText !== undefined ? max : start
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value out of range in "${part}" (${min}-${max})`)
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return { values, any: field === '*' }
+}
+
+/**
+ * Parses a standard five-field cron expression (minute, hour, day of month,
+ * month, day of week) or one of the `@daily` style shorthands. Throws with a
+ * readable message when the expression is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (MACROS[expression.trim().toLowerCase()] || expression).trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need five fields: minute hour day-of-month month day-of-week')
+  }
+
+  const daysOfWeek = parseField(fields[4], 0, 7, DAY_NAMES)
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.values.has(7)) daysOfWeek.values.add(0)
+
+  return {
+    minutes: parseField(fields[0], 0, 59),
+    hours: parseField(fields[1], 0, 23),
+    daysOfMonth: parseField(fields[2], 1, 31),
+    months: parseField(fields[3], 1, 12, MONTH_NAMES),
+    daysOfWeek
+  }
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// As in classic cron, when both day fields are restricted either one matching is enough
+function matchesDay(schedule: CronSchedule, day: number, weekday: number): boolean {
+  const { daysOfMonth, daysOfWeek } = schedule
+  if (daysOfMonth.any || daysOfWeek.any) {
+    return daysOfMonth.values.has(day) && daysOfWeek.values.has(weekday)
+  }
+  return daysOfMonth.values.has(day) || daysOfWeek.values.has(weekday)
+}
+
+/**
+ * The first time strictly after `after` that matches `expression`, evaluated
+ * on the wall clock of `timezone`.
+ */
+export function nextCronTime(expression: string, after: Date, timezone = 'UTC'): Date {
+  const schedule = parseCron(expression)
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 86400000
+  let ms = Math.floor(after.getTime() / 60000) * 60000 + 60000
+
+  // Skip whole days and hours that can't match instead of stepping minute by minute
+  while (ms <= limit) {
+    const { month, day, hours, minutes, weekday } = zonedParts(ms, timezone)
+    if (!schedule.months.values.has(month) || !matchesDay(schedule, day, weekday)) {
+      ms += ((23 - hours) * 60 + (60 - minutes)) * 60000
+    } else if (!schedule.hours.values.has(hours)) {
+      ms += (60 - minutes) * 60000
+    } else if (!schedule.minutes.values.has(minutes)) {
+      ms += 60000
+    } else {
+      return new Date(ms)
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`)
+}
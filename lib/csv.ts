@@ -0,0 +1,9 @@
+const csvField = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// RFC 4180 CSV: quoted where needed, CRLF line endings
+export function toCsv(rows: (string | number | boolean | undefined)[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,149 @@
+import type { Event } from './types'
+
+// Billing noise that differs between a venue's own listing and its ticketing page
+const NAME_NOISE = /\b(live|presents?|in concert|tour|tickets?|sold out|an evening with|tba)\b/g
+
+// Artist names this similar (Dice coefficient over character bigrams) are the same act
+const NAME_SIMILARITY_THRESHOLD = 0.75
+
+export function foldText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function venueKey(venue: string): string {
+  return foldText(venue.replace(/\.(com|org|net|co|us|uk|ca|live|club|events?)\b.*$/i, ''))
+    .replace(/^the /, '')
+    .replace(/ /g, '')
+}
+
+function nameKey(name: string): string {
+  return foldText(name)
+    .replace(NAME_NOISE, ' ')
+    .replace(/^the /, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Events on the same day match; without a normalized date fall back to the raw text
+function dayKey(event: Event): string {
+  return event.startsAt ? event.startsAt.slice(0, 10) : foldText(event.date)
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '')
+  const result: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2))
+  }
+  return result
+}
+
+export function diceSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  const left = bigrams(a)
+  const right = bigrams(b)
+  if (left.length === 0 || right.length === 0) return 0
+
+  const counts = new Map<string, number>()
+  left.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1))
+  let overlap = 0
+  for (const gram of right) {
+    const count = counts.get(gram) || 0
+    if (count > 0) {
+      overlap++
+      counts.set(gram, count - 1)
+    }
+  }
+  return (2 * overlap) / (left.length + right.length)
+}
+
+export function isSameArtist(a: string, b: string): boolean {
+  const left = nameKey(a)
+  const right = nameKey(b)
+  if (!left || !right) return false
+
+  // "Phoebe Bridgers" vs "Phoebe Bridgers with MUNA"
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left]
+  if (shorter.length >= 4 && ` ${longer} `.includes(` ${shorter} `)) return true
+
+  return diceSimilarity(left, right) >= NAME_SIMILARITY_THRESHOLD
+}
+
+// "The Fillmore" vs "fillmore.com"; an unknown venue matches anything
+export function isSameVenue(a: string, b: string): boolean {
+  const left = venueKey(a)
+  const right = venueKey(b)
+  return !left || !right || left.includes(right) || right.includes(left)
+}
+
+export function isSameEvent(a: Event, b: Event): boolean {
+  if (dayKey(a) !== dayKey(b)) return false
+  // Early and late shows on the same night are separate events
+  if (hasTime(a.startsAt) && hasTime(b.startsAt) && a.startsAt !== b.startsAt) return false
+
+  return isSameVenue(a.venue, b.venue) && isSameArtist(a.eventName, b.eventName)
+}
+
+const known = (value?: string) => !!value && value.trim() !== '' && value !== 'TBA'
+const hasTime = (value?: string) => !!value && value.includes('T')
+
+// How much an event tells us; structured data wins ties since it isn't guessed
+function completeness(event: Event): number {
+  const fields = [event.price, event.description, event.startsAt, event.doorsAt, event.endsAt, event.time]
+  return fields.filter(known).length +
+    (hasTime(event.startsAt) ? 1 : 0) +
+    (event.priceMin !== undefined ? 1 : 0) +
+    (event.source === 'structured' ? 0.5 : 0)
+}
+
+const longest = (...values: (string | undefined)[]) =>
+  values.filter(known).sort((a, b) => (b as string).length - (a as string).length)[0]
+
+function merge(a: Event, b: Event): Event {
+  const [base, other] = completeness(a) >= completeness(b) ? [a, b] : [b, a]
+  const sources = Array.from(new Set([...(base.sources || []), ...(other.sources || [])]))
+  // An event page beats the listing page it was found on
+  const isListing = (url: string) => sources.includes(url)
+
+  return {
+    ...other,
+    ...Object.fromEntries(Object.entries(base).filter(([, value]) => value !== undefined && value !== '' && value !== 'TBA')),
+    eventName: longest(base.eventName, other.eventName) || base.eventName,
+    description: longest(base.description, other.description),
+    startsAt: hasTime(base.startsAt) || !hasTime(other.startsAt) ? base.startsAt || other.startsAt : other.startsAt,
+    url: !isListing(base.url) || isListing(other.url) ? base.url : other.url,
+    soldOut: !!(base.soldOut || other.soldOut),
+    cancelled: !!(base.cancelled || other.cancelled),
+    sources,
+    // A show any source confirms isn't doubtful just because another source was
+    ...(base.confidence === 'low' && other.confidence === 'low'
+      ? { confidenceNotes: Array.from(new Set([...(base.confidenceNotes || []), ...(other.confidenceNotes || [])])) }
+      : { confidence: base.confidence === 'high' || other.confidence === 'high' ? 'high' : undefined, confidenceNotes: undefined })
+  }
+}
+
+/**
+ * Collapses events that describe the same show (same venue and day, similar
+ * artist name) into one, keeping the most complete value of each field and
+ * every source URL the show was found on.
+ */
+export function dedupeEvents(events: Event[]): Event[] {
+  const merged: Event[] = []
+
+  for (const event of events) {
+    const index = merged.findIndex(existing => isSameEvent(existing, event))
+    if (index === -1) {
+      merged.push(event)
+    } else {
+      merged[index] = merge(merged[index], event)
+    }
+  }
+
+  return merged
+}
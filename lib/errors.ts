@@ -0,0 +1,56 @@
+import type { ErrorCategory } from './types'
+
+export class ScrapeError extends Error {
+  constructor(
+    public category: ErrorCategory,
+    message: string,
+    public httpStatus?: number
+  ) {
+    super(message)
+    this.name = 'ScrapeError'
+  }
+}
+
+// Text that challenge and captcha interstitials show instead of the real page
+const BOT_BLOCK_PATTERNS = [
+  /just a moment\.\.\./i,
+  /attention required/i,
+  /checking your browser/i,
+  /verify you are (a )?human/i,
+  /are you a robot/i,
+  /captcha/i,
+  /access denied/i,
+  /request blocked/i,
+  /unusual traffic/i
+]
+
+export function looksLikeBotBlock(title: string, bodyText: string): boolean {
+  // Real listing pages can mention "captcha" in a footer; challenge pages are short
+  const sample = `${title}\n${bodyText.length < 2000 ? bodyText : ''}`
+  return BOT_BLOCK_PATTERNS.some(pattern => pattern.test(sample))
+}
+
+/**
+ * Maps anything thrown while processing a URL onto a `ScrapeError` so the
+ * client gets a category it can act on rather than a raw message.
+ */
+export function toScrapeError(error: unknown): ScrapeError {
+  if (error instanceof ScrapeError) return error
+
+  const message = error instanceof Error ? error.message : String(error)
+  const name = error instanceof Error ? error.name : ''
+
+  if (name === 'TimeoutError' || /timeout \d+ms exceeded/i.test(message)) {
+    return new ScrapeError('navigation_timeout', message)
+  }
+  if (/net::ERR_|NS_ERROR_/.test(message)) {
+    return new ScrapeError('navigation_error', message)
+  }
+  return new ScrapeError('unknown', message)
+}
+
+// Failures worth loading the page again for: timeouts, network errors, rate limiting and server errors
+export function isRetryable(error: ScrapeError): boolean {
+  if (error.category === 'navigation_timeout' || error.category === 'navigation_error') return true
+  return error.category === 'http_status' && (error.httpStatus === 429 || (error.httpStatus || 0) >= 500)
+}
@@ -0,0 +1,126 @@
+import { foldText } from './dedupe'
+import { eventStartMs } from './events'
+import type { Event } from './types'
+
+export type SortKey = 'venue' | 'eventName' | 'date' | 'price'
+
+export type EventFilters = {
+  // Inclusive YYYY-MM-DD bounds on the show's day
+  from?: string
+  to?: string
+  // Show only these venues; empty means all
+  venues: string[]
+  // Words that must all appear in the artist name or description
+  search: string
+  // Cheapest ticket at most this much; shows without a listed price are kept
+  maxPrice?: number
+  freeOnly: boolean
+  sort: SortKey
+  descending: boolean
+}
+
+export const DEFAULT_FILTERS: EventFilters = {
+  venues: [],
+  search: '',
+  freeOnly: false,
+  sort: 'date',
+  descending: false
+}
+
+const SORT_KEYS: SortKey[] = ['venue', 'eventName', 'date', 'price']
+
+const isDay = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+const isFree = (event: Event) => !!event.isFree || event.priceMax === 0
+
+function matchesFilters(event: Event, filters: EventFilters, words: string[]): boolean {
+  if (filters.from || filters.to) {
+    // Without a resolved date there's nothing to compare against the range
+    const day = event.startsAt?.slice(0, 10)
+    if (!day) return false
+    if (filters.from && day < filters.from) return false
+    if (filters.to && day > filters.to) return false
+  }
+
+  if (filters.venues.length > 0 && !filters.venues.includes(event.venue)) return false
+
+  if (words.length > 0) {
+    const text = ` ${foldText(`${event.eventName} ${event.description || ''}`)} `
+    if (!words.every(word => text.includes(word))) return false
+  }
+
+  if (filters.freeOnly && !isFree(event)) return false
+  if (filters.maxPrice !== undefined && !isFree(event) && event.priceMin !== undefined && event.priceMin > filters.maxPrice) {
+    return false
+  }
+
+  return true
+}
+
+function compareEvents(a: Event, b: Event, key: SortKey): number {
+  switch (key) {
+    case 'venue':
+      return a.venue.localeCompare(b.venue)
+    case 'eventName':
+      return a.eventName.localeCompare(b.eventName)
+    case 'date':
+      return (eventStartMs(a) ?? Infinity) - (eventStartMs(b) ?? Infinity)
+    case 'price':
+      return (isFree(a) ? 0 : a.priceMin ?? Infinity) - (isFree(b) ? 0 : b.priceMin ?? Infinity)
+  }
+}
+
+/**
+ * The events that pass every filter, in the requested order. Events with no
+ * value for the sort column (no date, no price) stay at the end either way.
+ */
+export function applyFilters(events: Event[], filters: EventFilters): Event[] {
+  const words = foldText(filters.search).split(' ').filter(Boolean)
+  const hasValue = (event: Event) =>
+    filters.sort === 'date' ? eventStartMs(event) !== undefined
+      : filters.sort === 'price' ? isFree(event) || event.priceMin !== undefined
+        : true
+
+  return events
+    .filter(event => matchesFilters(event, filters, words))
+    .sort((a, b) => {
+      if (hasValue(a) !== hasValue(b)) return hasValue(a) ? -1 : 1
+      const order = compareEvents(a, b, filters.sort)
+      return (filters.descending ? -order : order) || 0
+    })
+}
+
+// Filter state as query parameters, so a filtered view can be shared as a link
+export function filtersToParams(filters: EventFilters, params = new URLSearchParams()): URLSearchParams {
+  for (const key of ['from', 'to', 'venue', 'q', 'maxPrice', 'free', 'sort']) {
+    params.delete(key)
+  }
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  filters.venues.forEach(venue => params.append('venue', venue))
+  if (filters.search.trim()) params.set('q', filters.search.trim())
+  if (filters.maxPrice !== undefined) params.set('maxPrice', String(filters.maxPrice))
+  if (filters.freeOnly) params.set('free', '1')
+  if (filters.sort !== DEFAULT_FILTERS.sort || filters.descending) {
+    params.set('sort', `${filters.descending ? '-' : ''}${filters.sort}`)
+  }
+  return params
+}
+
+export function filtersFromParams(params: URLSearchParams): EventFilters {
+  const sort = (params.get('sort') || '').replace(/^-/, '') as SortKey
+  const maxPrice = parseFloat(params.get('maxPrice') || '')
+  const from = params.get('from')
+  const to = params.get('to')
+
+  return {
+    from: isDay(from) ? from : undefined,
+    to: isDay(to) ? to : undefined,
+    venues: params.getAll('venue'),
+    search: params.get('q') || '',
+    maxPrice: isNaN(maxPrice) ? undefined : maxPrice,
+    freeOnly: params.get('free') === '1',
+    sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+    descending: SORT_KEYS.includes(sort) && (params.get('sort') || '').startsWith('-')
+  }
+}
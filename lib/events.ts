@@ -0,0 +1,125 @@
+import { toCsv } from './csv'
+import { zonedTimeToUtcMs } from './normalize'
+import type { Event } from './types'
+
+// `startsAt`/`endsAt` as a UTC timestamp. Date-only values (no known time)
+// count from the start of that day in the venue's timezone, or from its end
+// when `endOfDay` is set.
+function timestampMs(value: string | undefined, timezone = 'UTC', endOfDay = false): number | undefined {
+  if (!value) return undefined
+
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (dateOnly) {
+    const date = { year: parseInt(dateOnly[1], 10), month: parseInt(dateOnly[2], 10), day: parseInt(dateOnly[3], 10) }
+    return endOfDay
+      ? zonedTimeToUtcMs(date, { hours: 23, minutes: 59 }, timezone)
+      : zonedTimeToUtcMs(date, { hours: 0, minutes: 0 }, timezone)
+  }
+
+  const ms = Date.parse(value)
+  return isNaN(ms) ? undefined : ms
+}
+
+export const eventStartMs = (event: Event) => timestampMs(event.startsAt, event.timezone)
+
+// A date-only end (JSON-LD often gives `endDate: "2024-03-15"` with a timed start) lasts the whole day
+export const eventEndMs = (event: Event) => timestampMs(event.endsAt, event.timezone, true)
+
+// Sort events by start time; events whose date couldn't be resolved go last
+export function sortEventsByDate(events: Event[]): Event[] {
+  return [...events].sort((a, b) => {
+    const startA = eventStartMs(a)
+    const startB = eventStartMs(b)
+    if (startA === undefined && startB === undefined) return 0
+    if (startA === undefined) return 1
+    if (startB === undefined) return -1
+    return startA - startB
+  })
+}
+
+/**
+ * Whether an event hasn't finished yet. Events with no resolvable date are
+ * kept, since dropping them would hide shows we simply failed to parse.
+ */
+export function isUpcoming(event: Event, now: Date = new Date()): boolean {
+  const end = eventEndMs(event) ?? timestampMs(event.startsAt, event.timezone, true)
+  return end === undefined || end >= now.getTime()
+}
+
+export function formatEventDate(event: Event): string {
+  if (!event.startsAt) return event.date
+
+  const ms = eventStartMs(event)
+  if (ms === undefined) return event.date
+  // Date-only values were anchored to midnight in the venue's timezone above
+  return new Date(ms).toLocaleDateString('en-US', {
+    timeZone: event.timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+}
+
+export function formatEventTime(event: Event): string {
+  const format = (value: string) =>
+    new Date(value).toLocaleTimeString('en-US', { timeZone: event.timezone, hour: 'numeric', minute: '2-digit' })
+
+  const hasTime = (value?: string): value is string => !!value && value.includes('T')
+  if (!hasTime(event.startsAt)) return event.time
+
+  let time = format(event.startsAt)
+  if (hasTime(event.endsAt)) time += ` – ${format(event.endsAt)}`
+  if (hasTime(event.doorsAt) && event.doorsAt !== event.startsAt) time += ` (doors ${format(event.doorsAt)})`
+  return time
+}
+
+export function formatEventPrice(event: Event): string | undefined {
+  if (event.isFree) return 'Free'
+  if (event.priceMin === undefined || event.priceMax === undefined) return event.price
+
+  const format = (amount: number) =>
+    amount.toLocaleString('en-US', {
+      style: 'currency',
+      currency: event.currency || 'USD',
+      minimumFractionDigits: Number.isInteger(amount) ? 0 : 2
+    })
+  try {
+    return event.priceMin === event.priceMax
+      ? format(event.priceMin)
+      : `${format(event.priceMin)} – ${format(event.priceMax)}`
+  } catch {
+    // Unknown currency code
+    return event.price
+  }
+}
+
+const EVENT_CSV_COLUMNS = [
+  'date', 'time', 'eventName', 'venue', 'price', 'priceMin', 'priceMax', 'currency',
+  'soldOut', 'cancelled', 'url', 'source', 'confidence', 'startsAt', 'timezone', 'sources'
+]
+
+// One row per event, with the normalized date and time split out for spreadsheets
+export function eventsToCsv(events: Event[]): string {
+  return toCsv([
+    EVENT_CSV_COLUMNS,
+    ...events.map(event => [
+      event.startsAt?.slice(0, 10) || event.date,
+      event.startsAt?.includes('T') ? event.startsAt.slice(11, 16) : event.time,
+      event.eventName,
+      event.venue,
+      event.price,
+      event.priceMin,
+      event.priceMax,
+      event.currency,
+      event.soldOut,
+      event.cancelled,
+      event.url,
+      event.source,
+      event.confidence,
+      event.startsAt,
+      event.timezone,
+      event.sources?.join(' ')
+    ])
+  ])
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto'
+import { ScrapeError } from './errors'
+import { validateExtraction, type ValidationResult } from './extraction-schema'
+import type { ExtractionProvider } from './providers'
+import type { Event } from './types'
+
+const VISION_INSTRUCTIONS = `Use both the text content AND the screenshot to find events. Screenshots can show calendars, event listings, 
+  and visual information that might not be captured in the text. Look for dates, times, band names, and event details
+  in both sources.`
+
+const TEXT_ONLY_INSTRUCTIONS = `Use the text content to find events. Look for dates, times, band names, and event details.`
+
+const SCREENSHOT_ONLY_INSTRUCTIONS = `Use the screenshot to find events. It shows one part of a longer page whose text is read
+  separately, so report only the events visible in it.`
+
+// Extra model calls allowed to fix a response that fails validation. A value
+// that isn't a number would otherwise allow unlimited (paid) repair calls
+const configuredRepairAttempts = parseInt(process.env.EXTRACTION_REPAIR_ATTEMPTS || '1', 10)
+const REPAIR_ATTEMPTS = Number.isFinite(configuredRepairAttempts) && configuredRepairAttempts >= 0 ? configuredRepairAttempts : 1
+
+// Enough of a bad response for the model to see what it got wrong
+const MAX_ECHOED_RESPONSE_CHARS = 8000
+
+function buildPrompts(content: string, url: string, useScreenshot: boolean) {
+  // Tiles beyond the page's text chunks are sent without any text (see pairChunksWithTiles)
+  const screenshotOnly = useScreenshot && !content.trim()
+  const systemPrompt = `You are an expert at extracting music event information from website content${useScreenshot ? ' and screenshots' : ''}. 
+  Extract all upcoming music events, concerts, shows, or performances from the provided content${useScreenshot ? ' and screenshot' : ''}.
+  
+  For each event, extract:
+  - venue: The name of the venue (derive from the URL or content if not explicitly stated)
+  - eventName: The name of the event, band, artist, or show
+  - date: The date in a readable format (e.g., "March 15, 2024" or "3/15/2024")
+  - time: The time of the event (e.g., "8:00 PM" or "20:00")
+  - price: The ticket price if available (e.g., "$25" or "Free")
+  - description: A brief description if available
+  - url: The URL of the specific event page, copied exactly from a link on the page (links appear in the text content as [url] right after their text); leave it out if there is none
+  - evidence: A short quote (under 200 characters), copied word for word from the ${screenshotOnly ? 'screenshot' : 'text content'}, that shows the event's name and date
+
+  ${screenshotOnly ? SCREENSHOT_ONLY_INSTRUCTIONS : useScreenshot ? VISION_INSTRUCTIONS : TEXT_ONLY_INSTRUCTIONS}
+
+  Never invent events, artists, dates or URLs. Only report what the page actually shows.
+
+  Return the data as a JSON object with an "events" key containing an array of event objects.
+  Every value must be a string; use only the fields listed above. eventName, date and evidence are required.
+  If no events are found, return {"events": []}.
+  Only include events that are clearly in the future (from today onwards).
+  If the date year is not specified, assume it's the current or next year based on context.`
+
+  const userPrompt = screenshotOnly
+    ? `Extract all upcoming music events shown in this screenshot of part of a website.
+
+Base URL: ${url}`
+    : `Extract all upcoming music events from this website. ${useScreenshot ? "I'm providing both the text content and a screenshot of the page." : "I'm providing the text content of the page."}
+
+Text Content:
+${content}
+
+Base URL: ${url}
+
+Please analyze ${useScreenshot ? 'both the text and the screenshot' : 'the text'} to find all upcoming music events.`
+
+  return { systemPrompt, userPrompt }
+}
+
+/**
+ * Identifies an extraction by everything that affects its result: the page
+ * text (whitespace-normalized, so re-renders don't count as changes), the
+ * prompts, and the model. Any prompt edit therefore invalidates old entries.
+ * Screenshots sent without text are identified by the image itself.
+ */
+export function extractionCacheKey(content: string, screenshot: string, url: string, provider: ExtractionProvider): string {
+  const useScreenshot = provider.supportsVision && !!screenshot
+  const normalized = content.replace(/\s+/g, ' ').trim()
+  const { systemPrompt, userPrompt } = buildPrompts(normalized, url, useScreenshot)
+  const image = useScreenshot && !normalized ? [createHash('sha256').update(screenshot).digest('hex')] : []
+  return createHash('sha256')
+    .update(JSON.stringify([provider.name, provider.model, useScreenshot, systemPrompt, userPrompt, ...image]))
+    .digest('hex')
+}
+
+export async function extractEventsWithGPT(content: string, screenshot: string, url: string, provider: ExtractionProvider): Promise<Event[]> {
+  const useScreenshot = provider.supportsVision && !!screenshot
+  const { systemPrompt, userPrompt } = buildPrompts(content, url, useScreenshot)
+
+  let result = (await provider.complete({
+    systemPrompt,
+    userPrompt,
+    screenshot: useScreenshot ? screenshot : undefined,
+    url
+  })).content
+
+  for (let attempt = 0; ; attempt++) {
+    if (!result) return []
+
+    let validation: ValidationResult
+    try {
+      // Without JSON mode, models often wrap their answer in a Markdown code fence
+      validation = validateExtraction(JSON.parse(result.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '')))
+    } catch {
+      validation = { events: null, errors: ['response: not valid JSON'] }
+    }
+    const { events, errors } = validation
+
+    if (errors.length === 0 || attempt >= REPAIR_ATTEMPTS) {
+      if (!events) {
+        console.error('Invalid LLM response:', errors.join('; '))
+        throw new ScrapeError('invalid_json', `The model returned an invalid response (${errors[0]})`)
+      }
+      if (errors.length > 0) {
+        // Keep the events that passed; the rest couldn't be repaired
+        console.warn(`Dropped invalid events from ${url}:`, errors.join('; '))
+      }
+
+      return events.map(event => ({
+        venue: event.venue || new URL(url).hostname.replace('www.', ''),
+        eventName: event.eventName,
+        date: event.date,
+        time: event.time || 'TBA',
+        price: event.price,
+        description: event.description,
+        url: event.url || url,
+        evidence: event.evidence,
+        source: 'llm' as const
+      }))
+    }
+
+    // Ask once more with the problems spelled out; the screenshot isn't
+    // needed to fix the format, so the retry is text-only
+    result = (await provider.complete({
+      systemPrompt,
+      userPrompt: `${userPrompt}
+
+Your previous response did not match the required format:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${result.slice(0, MAX_ECHOED_RESPONSE_CHARS)}
+
+Return the corrected JSON object only.`,
+      url
+    })).content
+  }
+}
@@ -0,0 +1,78 @@
+import { randomBytes } from 'crypto'
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import type { Event } from './types'
+
+type CacheEntry = {
+  createdAt: string
+  events: Event[]
+}
+
+// How long an extraction is reused before the page is sent to the model again
+export const DEFAULT_CACHE_TTL_HOURS = parseFloat(process.env.EXTRACTION_CACHE_TTL_HOURS || '24')
+
+// Entries older than this are deleted, whatever TTL a request asks for
+const CACHE_MAX_AGE_HOURS = Math.max(DEFAULT_CACHE_TTL_HOURS, parseFloat(process.env.EXTRACTION_CACHE_MAX_AGE_HOURS || '168'))
+
+// At most one sweep of the cache directory per this long
+const PRUNE_INTERVAL_MS = 3600000
+
+let lastPruned = 0
+
+const cacheDir = () => path.join(process.env.DATA_DIR || path.join(process.cwd(), 'data'), 'extraction-cache')
+
+const entryPath = (key: string) => path.join(cacheDir(), `${key}.json`)
+
+/**
+ * The events extracted earlier for `key` (see `extractionCacheKey`), unless
+ * they are older than `ttlHours` or there are none.
+ */
+export async function getCachedExtraction(key: string, ttlHours = DEFAULT_CACHE_TTL_HOURS): Promise<Event[] | undefined> {
+  try {
+    const entry: CacheEntry = JSON.parse(await readFile(entryPath(key), 'utf8'))
+    const ageMs = Date.now() - new Date(entry.createdAt).getTime()
+    return ageMs <= ttlHours * 3600000 ? entry.events : undefined
+  } catch {
+    // Missing or unreadable entries are misses
+    return undefined
+  }
+}
+
+export async function setCachedExtraction(key: string, events: Event[]): Promise<void> {
+  const entry: CacheEntry = { createdAt: new Date().toISOString(), events }
+  const file = entryPath(key)
+  // Unique per write, so two processes caching the same page don't share a temp file
+  const temp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`
+  try {
+    await mkdir(cacheDir(), { recursive: true })
+    // Entries are written whole so a concurrent read never sees half a file
+    await writeFile(temp, JSON.stringify(entry))
+    await rename(temp, file)
+  } catch (error) {
+    // A cache that can't be written only costs a model call next time
+    console.error('Error writing extraction cache:', error)
+    await unlink(temp).catch(() => {})
+  }
+  await pruneCache()
+}
+
+/**
+ * Deletes entries (and temp files left by crashed writes) older than
+ * EXTRACTION_CACHE_MAX_AGE_HOURS, so the cache doesn't grow without bound.
+ * Runs at most once an hour; `now` is for tests.
+ */
+export async function pruneCache(now = Date.now()): Promise<void> {
+  if (now - lastPruned < PRUNE_INTERVAL_MS) return
+  lastPruned = now
+
+  const names = await readdir(cacheDir()).catch(() => [] as string[])
+  for (const name of names) {
+    const file = path.join(cacheDir(), name)
+    try {
+      const { mtimeMs } = await stat(file)
+      if (now - mtimeMs > CACHE_MAX_AGE_HOURS * 3600000) await unlink(file)
+    } catch {
+      // Already replaced or pruned by another process
+    }
+  }
+}
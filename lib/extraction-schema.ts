@@ -0,0 +1,98 @@
+// One event as the model must return it (see the prompt in lib/extract.ts)
+export type ExtractedEvent = {
+  venue?: string
+  eventName: string
+  date: string
+  time?: string
+  price?: string
+  description?: string
+  url?: string
+  // Verbatim quote from the page text that shows this event
+  evidence: string
+}
+
+export type ValidationResult = {
+  // Null when the response as a whole is unusable (not an object, no events array)
+  events: ExtractedEvent[] | null
+  errors: string[]
+}
+
+type FieldRule = { required: boolean; maxLength: number }
+
+const FIELDS: Record<keyof ExtractedEvent, FieldRule> = {
+  venue: { required: false, maxLength: 200 },
+  eventName: { required: true, maxLength: 300 },
+  date: { required: true, maxLength: 100 },
+  time: { required: false, maxLength: 100 },
+  price: { required: false, maxLength: 200 },
+  description: { required: false, maxLength: 1000 },
+  url: { required: false, maxLength: 2000 },
+  evidence: { required: true, maxLength: 500 }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function validateEvent(value: unknown, path: string, errors: string[]): ExtractedEvent | null {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`)
+    return null
+  }
+
+  const event: Record<string, string> = {}
+  let valid = true
+
+  for (const key of Object.keys(value)) {
+    if (!(key in FIELDS)) {
+      errors.push(`${path}.${key}: unknown field (allowed: ${Object.keys(FIELDS).join(', ')})`)
+      valid = false
+    }
+  }
+
+  for (const [key, rule] of Object.entries(FIELDS)) {
+    const field = value[key]
+    // Models use null and "" for "not on the page"; both mean absent
+    if (field === undefined || field === null || (typeof field === 'string' && !field.trim())) {
+      if (rule.required) {
+        errors.push(`${path}.${key}: required`)
+        valid = false
+      }
+      continue
+    }
+    if (typeof field !== 'string') {
+      errors.push(`${path}.${key}: expected a string, got ${typeof field}`)
+      valid = false
+      continue
+    }
+    if (field.length > rule.maxLength) {
+      errors.push(`${path}.${key}: longer than ${rule.maxLength} characters`)
+      valid = false
+      continue
+    }
+    event[key] = field.trim()
+  }
+
+  return valid ? (event as ExtractedEvent) : null
+}
+
+/**
+ * Checks a parsed model response against the extraction schema:
+ * `{ "events": [{ eventName, date, evidence, venue?, time?, price?, description?, url? }] }`
+ * with string values only and no other fields. Invalid events are left out of
+ * `events` and described in `errors`, so the caller can ask the model to fix them.
+ */
+export function validateExtraction(value: unknown): ValidationResult {
+  if (!isObject(value)) {
+    return { events: null, errors: ['response: expected a JSON object'] }
+  }
+  if (!Array.isArray(value.events)) {
+    return { events: null, errors: ['response.events: expected an array'] }
+  }
+
+  const errors: string[] = []
+  const events = value.events
+    .map((event, index) => validateEvent(event, `events[${index}]`, errors))
+    .filter((event): event is ExtractedEvent => event !== null)
+
+  return { events, errors }
+}
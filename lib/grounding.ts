@@ -0,0 +1,117 @@
+import { foldText } from './dedupe'
+import { calendarDay, findDatesInText, parseDateText } from './normalize'
+import type { Event } from './types'
+
+export type GroundingContext = {
+  // The page text the model was given
+  text: string
+  // Every link on the page (see ScrapedPage.links)
+  links: string[]
+  pageUrl: string
+  today: ReturnType<typeof calendarDay>
+  // Whether the model also saw a screenshot, which can show events the text doesn't
+  usedScreenshot: boolean
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Links compare without their fragment or a trailing slash
+function linkKey(url: string, base?: string): string | undefined {
+  try {
+    const parsed = new URL(url, base)
+    parsed.hash = ''
+    return parsed.toString().replace(/\/$/, '')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Checks model-extracted events against the page they came from, since
+ * models occasionally invent artists, dates and links:
+ *
+ * - an event whose name and evidence quote both appear nowhere in the page
+ *   text or links is dropped, unless the model also had a screenshot to read
+ *   it from, in which case it's kept as low-confidence
+ * - an event whose name, date or evidence can't be found is kept but marked
+ *   low-confidence, with the reasons in `confidenceNotes`
+ * - a `url` that isn't a link on the page is replaced by the page's own URL
+ */
+export function groundEvents(events: Event[], context: GroundingContext): Event[] {
+  const foldedText = ` ${foldText(context.text)} `
+  // Quotes may leave out the [url] link targets the scraper writes after link text
+  const foldedPlainText = ` ${foldText(context.text.replace(/ ?\[https?:\/\/[^\]\s]*\]/g, ''))} `
+  const words = new Set(foldedText.split(' '))
+  const foldedLinks = context.links.map(foldText)
+  const linkKeys = new Set(context.links.map(link => linkKey(link)).filter(Boolean))
+  const pageDates = new Set(findDatesInText(context.text, context.today))
+
+  const containsText = (value: string) => {
+    const folded = foldText(value)
+    return !!folded && (foldedText.includes(` ${folded} `) || foldedPlainText.includes(` ${folded} `))
+  }
+
+  const containsName = (name: string) => {
+    if (containsText(name)) return true
+    // Billing is often reordered or abbreviated on the page, so every
+    // significant word appearing somewhere counts too
+    const significant = foldText(name).split(' ').filter(word => word.length >= 3)
+    if (significant.length > 0 && significant.every(word => words.has(word))) return true
+    // Event page slugs, e.g. /events/phoebe-bridgers-2024-11-14
+    const folded = foldText(name)
+    return !!folded && foldedLinks.some(link => link.includes(folded))
+  }
+
+  const containsDate = (value: string) => {
+    if (containsText(value)) return true
+    const date = parseDateText(value, context.today)
+    if (!date) return false
+
+    const iso = `${date.year}-${pad(date.month)}-${pad(date.day)}`
+    if (pageDates.has(iso)) return true
+    // Numeric forms the date scanner doesn't look for, e.g. 11/14 or 14.11
+    const numeric = new RegExp(`\\b0?${date.month}[/.]0?${date.day}\\b|\\b0?${date.day}\\.0?${date.month}\\b`)
+    if (numeric.test(context.text)) return true
+    return context.links.some(link => link.includes(iso) || link.includes(iso.replace(/-/g, '')))
+  }
+
+  const grounded: Event[] = []
+  for (const event of events) {
+    const nameFound = containsName(event.eventName)
+    const evidenceFound = !!event.evidence && containsText(event.evidence)
+
+    if (!nameFound && !evidenceFound && !context.usedScreenshot) {
+      console.warn(`Dropped "${event.eventName}" from ${context.pageUrl}: not found on the page`)
+      continue
+    }
+
+    const notes: string[] = []
+    if (!nameFound) {
+      notes.push(evidenceFound ? 'Name not found on the page as written' : 'Name not found in the page text (screenshot only)')
+    }
+    // A quote from the page that mentions the same date also counts
+    const evidenceDate = evidenceFound ? parseDateText(event.evidence as string, context.today) : null
+    const eventDate = parseDateText(event.date, context.today)
+    const dateInEvidence = !!evidenceDate && !!eventDate &&
+      evidenceDate.year === eventDate.year && evidenceDate.month === eventDate.month && evidenceDate.day === eventDate.day
+    if (!containsDate(event.date) && !dateInEvidence) {
+      notes.push('Date not found on the page')
+    }
+    if (event.evidence && !evidenceFound) {
+      notes.push('Quoted evidence not found on the page')
+    }
+
+    // Relative links are fine as long as they resolve to one on the page
+    const urlKey = linkKey(event.url, context.pageUrl)
+    const urlOnPage = !!urlKey && (linkKeys.has(urlKey) || urlKey === linkKey(context.pageUrl))
+
+    grounded.push({
+      ...event,
+      url: urlOnPage ? new URL(event.url, context.pageUrl).toString() : context.pageUrl,
+      confidence: notes.length > 0 ? 'low' : 'high',
+      confidenceNotes: notes.length > 0 ? notes : undefined
+    })
+  }
+
+  return grounded
+}
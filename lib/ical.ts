@@ -0,0 +1,140 @@
+import { foldText } from './dedupe'
+import { eventEndMs, eventStartMs } from './events'
+import type { Event } from './types'
+
+// Calendar apps need an end time; shows rarely list one
+const DEFAULT_DURATION_HOURS = 3
+
+const PRODUCT_ID = '-//Music Events Scraper//Events//EN'
+const UID_DOMAIN = 'music-events-scraper'
+
+// FNV-1a, so UIDs stay stable across runs without needing async WebCrypto in the browser
+function hash(value: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16).padStart(8, '0')
+}
+
+// Same venue, day and artist always map to the same UID, so re-imports and
+// feed refreshes update an event instead of duplicating it
+export function eventUid(event: Event): string {
+  const day = event.startsAt ? event.startsAt.slice(0, 10) : event.date
+  const key = `${foldText(event.venue)}|${day}|${foldText(event.eventName)}`
+  return `${hash(key)}-${hash(key.split('').reverse().join(''))}@${UID_DOMAIN}`
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// RFC 5545 3.1: lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of Array.from(line)) {
+    const bytes = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatUtc = (ms: number) => {
+  const d = new Date(ms)
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T` +
+    `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`
+}
+
+const formatDate = (isoDate: string) => isoDate.slice(0, 10).replace(/-/g, '')
+
+function nextDay(isoDate: string): string {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number)
+  const d = new Date(Date.UTC(year, month - 1, day + 1))
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`
+}
+
+function describe(event: Event): string {
+  return [
+    event.description,
+    event.price && `Price: ${event.price}`,
+    event.time && event.time !== 'TBA' && `Time: ${event.time}`,
+    event.soldOut && 'Sold out',
+    event.url
+  ].filter(Boolean).join('\n')
+}
+
+function toVEvent(event: Event, stamp: string): string[] | null {
+  const start = eventStartMs(event)
+  if (!event.startsAt || start === undefined) return null
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(event)}`,
+    `DTSTAMP:${stamp}`
+  ]
+
+  if (event.startsAt.includes('T')) {
+    // An end that doesn't come after the start (bad data, or a date-only end misread) gets the default length
+    const end = eventEndMs(event)
+    lines.push(`DTSTART:${formatUtc(start)}`)
+    lines.push(`DTEND:${formatUtc(end !== undefined && end > start ? end : start + DEFAULT_DURATION_HOURS * 3600000)}`)
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.startsAt)}`)
+    lines.push(`DTEND;VALUE=DATE:${nextDay(event.startsAt)}`)
+  }
+
+  lines.push(
+    `SUMMARY:${escapeText(event.eventName)}`,
+    `LOCATION:${escapeText(event.venue)}`,
+    `DESCRIPTION:${escapeText(describe(event))}`,
+    `URL:${event.url}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT'
+  )
+  return lines
+}
+
+/**
+ * Serializes events as an RFC 5545 iCalendar document. Events without a
+ * resolved date (`startsAt`) can't be placed on a calendar and are skipped.
+ */
+export function toICalendar(events: Event[], options: { name?: string; now?: Date } = {}): string {
+  const stamp = formatUtc((options.now || new Date()).getTime())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ]
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`)
+  }
+
+  for (const event of events) {
+    const vevent = toVEvent(event, stamp)
+    if (vevent) lines.push(...vevent)
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,150 @@
+import { toCsv } from './csv'
+import type { URLList, VenueOptions } from './types'
+import { cleanVenueOptions } from './urls'
+
+// A list as read from an import file, before it is given an id
+export type ImportedList = {
+  name: string
+  urls: string[]
+  venueOptions?: Record<string, VenueOptions>
+}
+
+// Venue settings columns follow `list` and `url`; several click selectors share a cell, one per line
+const SETTINGS_COLUMNS = ['maxPages', 'daysAhead', 'waitForSelector', 'clickSelectors', 'scroll', 'listingSelector', 'timezone', 'venueName', 'ignoreRobots'] as const
+const CSV_COLUMNS = ['list', 'url', ...SETTINGS_COLUMNS]
+
+export function exportListsJson(lists: URLList[]): string {
+  return JSON.stringify({
+    lists: lists.map(({ name, urls, venueOptions }) => ({ name, urls, ...(venueOptions ? { venueOptions } : {}) }))
+  }, null, 2)
+}
+
+// One row per URL; a list without URLs still gets a row so it survives a round trip
+export function exportListsCsv(lists: URLList[]): string {
+  const rows: (string | number | boolean | undefined)[][] = [CSV_COLUMNS]
+  for (const list of lists) {
+    const urls = list.urls.length > 0 ? list.urls : ['']
+    for (const url of urls) {
+      const options = list.venueOptions?.[url]
+      rows.push([
+        list.name,
+        url,
+        ...SETTINGS_COLUMNS.map(column => column === 'clickSelectors' ? options?.clickSelectors?.join('\n') : options?.[column])
+      ])
+    }
+  }
+  return toCsv(rows)
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+function parseListsCsv(text: string): ImportedList[] {
+  const [header, ...rows] = parseCsvRows(text)
+  const columns = (header || []).map(cell => cell.trim().toLowerCase())
+  const listColumn = columns.indexOf('list')
+  const urlColumn = columns.indexOf('url')
+  if (listColumn === -1 || urlColumn === -1) {
+    throw new Error('CSV needs "list" and "url" columns')
+  }
+
+  const lists = new Map<string, ImportedList>()
+  for (const cells of rows) {
+    const name = (cells[listColumn] || '').trim()
+    if (!name) continue
+    const list = lists.get(name) || { name, urls: [] }
+    lists.set(name, list)
+
+    const url = (cells[urlColumn] || '').trim()
+    if (!url) continue
+    list.urls.push(url)
+
+    const cell = (column: string) => (cells[columns.indexOf(column.toLowerCase())] || '').trim()
+    const options = cleanVenueOptions({
+      maxPages: parseInt(cell('maxPages'), 10),
+      daysAhead: parseInt(cell('daysAhead'), 10),
+      waitForSelector: cell('waitForSelector'),
+      clickSelectors: cell('clickSelectors').split('\n'),
+      scroll: cell('scroll').toLowerCase() !== 'false',
+      listingSelector: cell('listingSelector'),
+      timezone: cell('timezone'),
+      venueName: cell('venueName'),
+      ignoreRobots: cell('ignoreRobots').toLowerCase() === 'true'
+    })
+    if (Object.keys(options).length > 0) {
+      list.venueOptions = { ...list.venueOptions, [url]: options }
+    }
+  }
+  return Array.from(lists.values())
+}
+
+function parseListsJson(text: string): ImportedList[] {
+  const data = JSON.parse(text)
+  // An export file, a bare array of lists, or a single list
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.lists) ? data.lists : [data]
+
+  return items.map((item, index) => {
+    const list = item as Partial<ImportedList>
+    if (!list || typeof list.name !== 'string' || !list.name.trim() || !Array.isArray(list.urls)) {
+      throw new Error(`List ${index + 1} needs a "name" and a "urls" array`)
+    }
+    return {
+      name: list.name.trim(),
+      urls: list.urls.filter((url): url is string => typeof url === 'string'),
+      venueOptions: list.venueOptions && typeof list.venueOptions === 'object' ? list.venueOptions : undefined
+    }
+  })
+}
+
+/**
+ * Reads lists from an exported JSON or CSV file (see `exportListsJson` and
+ * `exportListsCsv`), telling the two apart by content. Throws with a readable
+ * message when the file doesn't match either format.
+ */
+export function parseListsFile(text: string): ImportedList[] {
+  const trimmed = text.replace(/^\uFEFF/, '').trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return parseListsJson(trimmed)
+    } catch (error) {
+      throw new Error(error instanceof SyntaxError ? 'File is not valid JSON' : (error as Error).message)
+    }
+  }
+  return parseListsCsv(trimmed)
+}
@@ -0,0 +1,33 @@
+const encoder = new TextEncoder()
+
+export function encodeLine(message: unknown): Uint8Array {
+  return encoder.encode(JSON.stringify(message) + '\n')
+}
+
+/**
+ * Reads a newline-delimited JSON response body, calling `onMessage` for each
+ * line as soon as it arrives.
+ */
+export async function readNdjson<T>(response: Response, onMessage: (message: T) => void): Promise<void> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (line.trim()) onMessage(JSON.parse(line))
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) onMessage(JSON.parse(buffer))
+}
@@ -0,0 +1,407 @@
+import type { Event } from './types'
+
+export type NormalizeOptions = {
+  // IANA timezone the venue's wall-clock times are in
+  timezone: string
+  // Reference point for relative ("tonight") and year-less ("Fri 3/15") dates
+  now: Date
+  // Currency assumed for a bare "$" or an amount without any symbol
+  defaultCurrency?: string
+}
+
+type CalendarDate = { year: number; month: number; day: number }
+type ClockTime = { hours: number; minutes: number }
+
+const MONTH_PATTERN = 'jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec'
+const MONTH_INDEX: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12
+}
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// A year-less date this many days in the past is read as next year's date
+// rather than a show that just happened
+const PAST_GRACE_DAYS = 30
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '£': 'GBP', '€': 'EUR' }
+const CURRENCY_CODES = ['USD', 'CAD', 'AUD', 'GBP', 'EUR']
+
+const pad = (value: number, length = 2) => String(Math.abs(value)).padStart(length, '0')
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall-clock fields of an instant as seen in `timezone`
+export function zonedParts(ms: number, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'short'
+  }).formatToParts(new Date(ms))
+  const get = (type: string) => parts.find(part => part.type === type)?.value || ''
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hours: parseInt(get('hour'), 10),
+    minutes: parseInt(get('minute'), 10),
+    seconds: parseInt(get('second'), 10),
+    weekday: WEEKDAYS.indexOf(get('weekday').toLowerCase().slice(0, 3))
+  }
+}
+
+function offsetMinutes(ms: number, timezone: string): number {
+  const p = zonedParts(ms, timezone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hours, p.minutes, p.seconds)
+  return Math.round((asUtc - Math.floor(ms / 1000) * 1000) / 60000)
+}
+
+/**
+ * Converts a wall-clock time in `timezone` to a UTC timestamp. Times skipped
+ * by a DST transition move forward by the length of the gap (2:30 becomes
+ * 3:30), and times that occur twice resolve to the first of the two.
+ */
+export function zonedTimeToUtcMs(date: CalendarDate, time: ClockTime, timezone: string): number {
+  const wall = Date.UTC(date.year, date.month - 1, date.day, time.hours, time.minutes)
+  // A day either side is clear of any transition near this time
+  const before = offsetMinutes(wall - 86400000, timezone)
+  const after = offsetMinutes(wall + 86400000, timezone)
+  const matches = [wall - before * 60000, wall - after * 60000]
+    .filter(ms => ms + offsetMinutes(ms, timezone) * 60000 === wall)
+  return matches.length > 0 ? Math.min(...matches) : wall - before * 60000
+}
+
+// ISO 8601 in the venue's local time with its UTC offset, e.g. 2024-03-15T20:00:00-07:00
+function formatZonedIso(ms: number, timezone: string): string {
+  const p = zonedParts(ms, timezone)
+  const offset = offsetMinutes(ms, timezone)
+  const sign = offset < 0 ? '-' : '+'
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hours)}:${pad(p.minutes)}:00` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+}
+
+// YYYY-MM-DD, the form dates are compared and keyed in
+export const formatDate = (date: CalendarDate) => `${date.year}-${pad(date.month)}-${pad(date.day)}`
+
+function isRealDate({ year, month, day }: CalendarDate): boolean {
+  const d = new Date(Date.UTC(year, month - 1, day))
+  return d.getUTCFullYear() === year && d.getUTCMonth() === month - 1 && d.getUTCDate() === day
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() }
+}
+
+const daysBetween = (a: CalendarDate, b: CalendarDate) =>
+  Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86400000)
+
+function resolveYear(month: number, day: number, today: CalendarDate): CalendarDate {
+  const candidate = { year: today.year, month, day }
+  if (isRealDate(candidate) && daysBetween(candidate, today) <= PAST_GRACE_DAYS) {
+    return candidate
+  }
+  return { year: today.year + 1, month, day }
+}
+
+function withYear(month: number, day: number, year: string | undefined, today: CalendarDate): CalendarDate | null {
+  let date: CalendarDate
+  if (year) {
+    const y = parseInt(year, 10)
+    date = { year: y < 100 ? 2000 + y : y, month, day }
+  } else {
+    date = resolveYear(month, day, today)
+  }
+  return isRealDate(date) ? date : null
+}
+
+/**
+ * Reads a calendar date out of free text such as "March 15, 2024", "Fri 3/15",
+ * "15th March", "2024-03-15", "tonight" or "this Friday". Year-less dates take
+ * the year that puts them in the upcoming window relative to `today`.
+ */
+export function parseDateText(text: string, today: CalendarDate & { weekday: number }): CalendarDate | null {
+  const value = text.toLowerCase()
+
+  const iso = value.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/)
+  if (iso) {
+    return withYear(parseInt(iso[2], 10), parseInt(iso[3], 10), iso[1], today)
+  }
+
+  const monthFirst = value.match(new RegExp(`\\b(${MONTH_PATTERN})[a-z]*\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`))
+  if (monthFirst) {
+    return withYear(MONTH_INDEX[monthFirst[1]], parseInt(monthFirst[2], 10), monthFirst[3], today)
+  }
+
+  const dayFirst = value.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})[a-z]*\\.?(?:,?\\s+(\\d{4}))?`))
+  if (dayFirst) {
+    return withYear(MONTH_INDEX[dayFirst[2]], parseInt(dayFirst[1], 10), dayFirst[3], today)
+  }
+
+  // Numeric dates are read month-first, e.g. 3/15 or 3/15/24
+  const numeric = value.match(/\b(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2}|\d{4}))?\b/)
+  if (numeric) {
+    return withYear(parseInt(numeric[1], 10), parseInt(numeric[2], 10), numeric[3], today)
+  }
+
+  if (/\b(today|tonight)\b/.test(value)) {
+    return { year: today.year, month: today.month, day: today.day }
+  }
+  if (/\btomorrow\b/.test(value)) {
+    return addDays(today, 1)
+  }
+
+  // A bare weekday means its next occurrence, counting today
+  const weekday = value.match(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)\b/)
+  if (weekday) {
+    const target = WEEKDAYS.indexOf(weekday[1].slice(0, 3))
+    return addDays(today, (target - today.weekday + 7) % 7)
+  }
+
+  return null
+}
+
+/**
+ * Every date mentioned in a block of text, as YYYY-MM-DD strings. Used to tell
+ * how far ahead a listing page reaches before any extraction has run.
+ */
+export function findDatesInText(text: string, today: CalendarDate & { weekday: number }): string[] {
+  const patterns = [
+    new RegExp(`\\b(${MONTH_PATTERN})[a-z]*\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?\\b(?:,?\\s+\\d{4})?`, 'gi'),
+    new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})[a-z]*\\.?(?:,?\\s+\\d{4})?`, 'gi'),
+    /\b\d{4}-\d{1,2}-\d{1,2}\b/g
+  ]
+
+  const dates: string[] = []
+  for (const pattern of patterns) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const date = parseDateText(match[0], today)
+      if (date) dates.push(formatDate(date))
+    }
+  }
+  return dates
+}
+
+// Today's date (and weekday) in `timezone`, as the reference for parseDateText
+export function calendarDay(now: Date, timezone: string): CalendarDate & { weekday: number } {
+  const { year, month, day, weekday } = zonedParts(now.getTime(), timezone)
+  return { year, month, day, weekday }
+}
+
+type TimeToken = ClockTime & { index: number; end: number; meridiem?: 'am' | 'pm'; explicit24h: boolean }
+
+const TIME_PATTERN = /\b(noon|midnight)\b|\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?![a-z])|\b(\d{1,2}):(\d{2})\b/gi
+
+function findTimes(text: string): TimeToken[] {
+  const tokens: TimeToken[] = []
+  for (const match of Array.from(text.matchAll(TIME_PATTERN))) {
+    const index = match.index || 0
+    const end = index + match[0].length
+    if (match[1]) {
+      const noon = match[1].toLowerCase() === 'noon'
+      tokens.push({ hours: noon ? 12 : 0, minutes: 0, index, end, meridiem: noon ? 'pm' : 'am', explicit24h: false })
+    } else if (match[4]) {
+      tokens.push({
+        hours: parseInt(match[2], 10),
+        minutes: parseInt(match[3] || '0', 10),
+        index,
+        end,
+        meridiem: match[4].toLowerCase().startsWith('a') ? 'am' : 'pm',
+        explicit24h: false
+      })
+    } else {
+      tokens.push({
+        hours: parseInt(match[5], 10),
+        minutes: parseInt(match[6], 10),
+        index,
+        end,
+        explicit24h: match[5].length === 2 && match[5].startsWith('0')
+      })
+    }
+  }
+  return tokens.filter(token => token.hours <= 23 && token.minutes <= 59)
+}
+
+// Shows without am/pm ("8:00") are evening shows unless written as 24-hour time
+function to24h(token: TimeToken, inherited?: 'am' | 'pm'): ClockTime {
+  const meridiem = token.meridiem || inherited
+  let hours = token.hours
+  if (meridiem === 'pm' && hours < 12) hours += 12
+  else if (meridiem === 'am' && hours === 12) hours = 0
+  else if (!meridiem && !token.explicit24h && hours >= 1 && hours <= 11) hours += 12
+  return { hours, minutes: token.minutes }
+}
+
+/**
+ * Picks the door, start and end times out of text like "Doors 7pm / Show 8pm"
+ * or "8:00 - 11:00 PM".
+ */
+export function parseTimeText(text: string): { doors?: ClockTime; start?: ClockTime; end?: ClockTime } {
+  const tokens = findTimes(text)
+  const result: { doors?: ClockTime; start?: ClockTime; end?: ClockTime } = {}
+
+  const isDoors = (token: TimeToken) => /doors?\b[^0-9]{0,12}$/i.test(text.slice(Math.max(0, token.index - 16), token.index))
+  const doors = tokens.find(isDoors)
+  if (doors) result.doors = to24h(doors)
+
+  const others = tokens.filter(token => token !== doors)
+  const start = others[0]
+  if (start) {
+    const next = others[1]
+    const isRange = next && /^\s*(-|–|—|to|until|till)\s*$/i.test(text.slice(start.end, next.index))
+    result.start = to24h(start, isRange ? next.meridiem : undefined)
+    if (isRange) result.end = to24h(next)
+  } else if (result.doors) {
+    // Only a doors time is listed; it's the best start time we have
+    result.start = result.doors
+  }
+
+  return result
+}
+
+const CURRENCY_BEFORE = new RegExp(`(?:[$£€]|\\b(?:${CURRENCY_CODES.join('|')}))\\s*$`, 'i')
+const CURRENCY_AFTER = new RegExp(`^\\s*(?:[$£€]|(?:${CURRENCY_CODES.join('|')})\\b)`, 'i')
+const RANGE_JOIN = /^\s*(?:-|–|—|to)\s*$/i
+// A comma is a decimal point only before one or two digits ("12,50"); before three it groups thousands ("1,200")
+const AMOUNT = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?(?!\d)|\d+(?:[.,]\d{1,2}(?!\d))?`
+const BARE_AMOUNTS = new RegExp(`^\\s*(?:${AMOUNT})(?:\\s*(?:-|–|—|to)\\s*(?:${AMOUNT}))?\\s*$`, 'i')
+// Free entry with money asked for on top, as in "Free - $10 donation"
+const OPTIONAL_PAYMENT = /\b(?:donations?|suggested|optional|tips?|pay what you (?:can|wish|want))\b/i
+
+/**
+ * Reads min/max amounts and currency from text like "$15 adv / $20 dos",
+ * "€10", "10-12 GBP" or "Free w/ RSVP". Only amounts next to a currency
+ * symbol or code count (and the other end of a range like "$15-20"), so ages
+ * and times in "$15 · 18+" or "Doors 7pm $10" aren't taken for prices. Text
+ * that is nothing but an amount or range is read in the default currency.
+ * Free shows asking for a donation are free, with the donation as the maximum.
+ */
+export function parsePriceText(text: string, defaultCurrency = 'USD'): {
+  priceMin?: number
+  priceMax?: number
+  currency?: string
+  isFree?: boolean
+} {
+  const tokens = Array.from(text.matchAll(new RegExp(AMOUNT, 'g'))).map(match => {
+    const index = match.index || 0
+    const end = index + match[0].length
+    return {
+      amount: parseFloat(/,\d{3}/.test(match[0]) ? match[0].replace(/,/g, '') : match[0].replace(',', '.')),
+      index,
+      end,
+      priced: CURRENCY_BEFORE.test(text.slice(0, index)) || CURRENCY_AFTER.test(text.slice(end))
+    }
+  })
+  // "$15-20" and "10-12 GBP" mark only one end of the range
+  for (let i = 1; i < tokens.length; i++) {
+    if (!RANGE_JOIN.test(text.slice(tokens[i - 1].end, tokens[i].index))) continue
+    const priced = tokens[i - 1].priced || tokens[i].priced
+    tokens[i - 1].priced = priced
+    tokens[i].priced = priced
+  }
+
+  const amounts = (BARE_AMOUNTS.test(text) ? tokens : tokens.filter(token => token.priced))
+    .map(token => token.amount)
+    .filter(amount => !isNaN(amount))
+
+  const saysFree = /\bfree\b/i.test(text)
+  if (amounts.length === 0) {
+    return saysFree ? { priceMin: 0, priceMax: 0, isFree: true } : {}
+  }
+
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => text.includes(s))
+  const code = CURRENCY_CODES.find(c => new RegExp(`\\b${c}\\b`, 'i').test(text))
+  const priceMax = Math.max(...amounts)
+  const isFree = priceMax === 0 || (saysFree && (Math.min(...amounts) === 0 || OPTIONAL_PAYMENT.test(text)))
+
+  return {
+    priceMin: isFree ? 0 : Math.min(...amounts),
+    priceMax,
+    currency: code || (symbol ? CURRENCY_SYMBOLS[symbol] : defaultCurrency),
+    isFree
+  }
+}
+
+// Already machine-readable timestamps (e.g. from JSON-LD) re-expressed in the venue's timezone
+function normalizeIsoTimestamp(value: string, timezone: string): string | undefined {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/)
+  if (!match) return undefined
+
+  const [, year, month, day, hours, minutes, offset] = match
+  const date = { year: parseInt(year, 10), month: parseInt(month, 10), day: parseInt(day, 10) }
+  if (!isRealDate(date)) return undefined
+  if (hours === undefined) return formatDate(date)
+
+  if (offset) {
+    const ms = Date.parse(`${year}-${month}-${day}T${hours}:${minutes}:00${offset === 'Z' ? 'Z' : offset.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2')}`)
+    return isNaN(ms) ? undefined : formatZonedIso(ms, timezone)
+  }
+  const time = { hours: parseInt(hours, 10), minutes: parseInt(minutes, 10) }
+  return formatZonedIso(zonedTimeToUtcMs(date, time, timezone), timezone)
+}
+
+/**
+ * Adds the machine-readable fields (`startsAt`, `doorsAt`, `endsAt`, price
+ * range and status flags) to an event, keeping the original free-text fields
+ * for display. Fields the extractor already filled in are re-expressed in the
+ * venue's timezone rather than re-derived.
+ */
+export function normalizeEvent(event: Event, options: NormalizeOptions): Event {
+  const { timezone, now, defaultCurrency = 'USD' } = options
+  const today = zonedParts(now.getTime(), timezone)
+  const normalized: Event = { ...event, timezone }
+
+  const startsAt = event.startsAt && normalizeIsoTimestamp(event.startsAt, timezone)
+  if (startsAt) {
+    normalized.startsAt = startsAt
+    if (event.endsAt) normalized.endsAt = normalizeIsoTimestamp(event.endsAt, timezone)
+    if (event.doorsAt) normalized.doorsAt = normalizeIsoTimestamp(event.doorsAt, timezone)
+  } else {
+    delete normalized.startsAt
+    delete normalized.endsAt
+    delete normalized.doorsAt
+
+    // The model sometimes puts the time in the date field ("Mar 15 @ 8pm")
+    const date = parseDateText(event.date, today)
+    const times = parseTimeText(event.time && event.time !== 'TBA' ? event.time : event.date)
+
+    if (date) {
+      const at = (time: ClockTime | undefined) =>
+        time ? formatZonedIso(zonedTimeToUtcMs(date, time, timezone), timezone) : undefined
+
+      normalized.startsAt = at(times.start) || formatDate(date)
+      normalized.doorsAt = at(times.doors)
+      // Shows that run past midnight end on the next day
+      if (times.end && times.start) {
+        const endDate = times.end.hours * 60 + times.end.minutes < times.start.hours * 60 + times.start.minutes
+          ? addDays(date, 1)
+          : date
+        normalized.endsAt = formatZonedIso(zonedTimeToUtcMs(endDate, times.end, timezone), timezone)
+      }
+    }
+  }
+
+  if (event.priceMin === undefined && event.price) {
+    Object.assign(normalized, parsePriceText(event.price, defaultCurrency))
+  }
+  if (normalized.isFree === undefined && normalized.priceMax !== undefined) {
+    normalized.isFree = normalized.priceMax === 0
+  }
+
+  const flagsText = [event.eventName, event.price, event.description, event.date, event.time].filter(Boolean).join(' ')
+  normalized.soldOut = event.soldOut || /\bsold[\s-]*out\b/i.test(flagsText)
+  normalized.cancelled = event.cancelled || /\bcancel+ed\b/i.test(flagsText)
+
+  return normalized
+}
@@ -0,0 +1,302 @@
+import type { Browser } from 'playwright'
+import { createKeyedLimiter, createLimiter, createThrottle } from './concurrency'
+import { chunkText, pairChunksWithTiles } from './chunking'
+import { dedupeEvents } from './dedupe'
+import { isRetryable, toScrapeError } from './errors'
+import { eventStartMs, isUpcoming, sortEventsByDate } from './events'
+import { extractEventsWithGPT, extractionCacheKey } from './extract'
+import { getCachedExtraction, setCachedExtraction } from './extraction-cache'
+import { groundEvents } from './grounding'
+import { calendarDay, findDatesInText, formatDate, normalizeEvent, type NormalizeOptions } from './normalize'
+import type { ExtractionProvider } from './providers'
+import { launchBrowser, scrapeWebsite, type ScrapeResult } from './scraper'
+import { addMonthlyUsage, getMonthlyUsage } from './store'
+import { parseStructuredEvents } from './structured-data'
+import type { CacheStats, Event, ScrapeProgress, SourceStatus, TokenUsage, VenueOptions } from './types'
+import { cleanVenueOptions } from './urls'
+import { addUsage, budgetLimitsFromEnv, budgetReached, emptyUsage, limitProvider, meterProvider, usageMonth, type BudgetLimits } from './usage'
+
+// How many pages load at once, and how many of those may hit the same domain
+const DEFAULT_CONCURRENCY = parseInt(process.env.SCRAPE_CONCURRENCY || '4', 10)
+const MAX_CONCURRENCY = parseInt(process.env.SCRAPE_MAX_CONCURRENCY || '8', 10)
+const PER_DOMAIN_CONCURRENCY = parseInt(process.env.SCRAPE_PER_DOMAIN_CONCURRENCY || '1', 10)
+
+// Least time between page loads on one domain, across runs as well as within one
+const DOMAIN_DELAY_SECONDS = parseFloat(process.env.SCRAPE_DOMAIN_DELAY_SECONDS || '2')
+
+// Extra attempts at a page that timed out, couldn't be reached or answered 429/5xx,
+// waiting SCRAPE_RETRY_BASE_SECONDS, then twice that, and so on
+const SCRAPE_RETRIES = parseInt(process.env.SCRAPE_RETRIES || '2', 10)
+const SCRAPE_RETRY_BASE_SECONDS = parseFloat(process.env.SCRAPE_RETRY_BASE_SECONDS || '5')
+
+const domainThrottle = createThrottle(DOMAIN_DELAY_SECONDS * 1000)
+
+// Venue times are read as wall-clock times in this zone unless the caller names one
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'UTC'
+const DEFAULT_CURRENCY = process.env.DEFAULT_CURRENCY || 'USD'
+
+export type ScrapeOptions = {
+  provider: ExtractionProvider
+  concurrency?: number
+  timezone?: string
+  now?: Date
+  // Crawl settings for individual URLs
+  venueOptions?: Record<string, VenueOptions>
+  // Reuse extractions of unchanged pages up to `ttlHours` old (default
+  // EXTRACTION_CACHE_TTL_HOURS); `refresh` sends every page to the model again
+  cache?: { ttlHours?: number; refresh?: boolean }
+  // Token budget for the page text in each model call (default EXTRACTION_CHUNK_TOKENS)
+  chunkTokens?: number
+  // How long each page may take to load (default 30s)
+  pageTimeoutMs?: number
+  // Spending limits for model calls (default LLM_BUDGET_*)
+  budget?: BudgetLimits
+}
+
+export type ScrapeRunResult = {
+  events: Event[]
+  sources: SourceStatus[]
+  cache: CacheStats
+  usage: TokenUsage
+}
+
+const domainOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace('www.', '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Whether schema.org events account for every upcoming date the pages show.
+ * Venues often mark up only some of their shows (featured ones, or the first
+ * few), so any other date on the page means the text still has to be read.
+ */
+function structuredDataCoversPages(events: Event[], pages: ScrapeResult['pages'], options: NormalizeOptions): boolean {
+  if (events.length === 0) return false
+  const today = calendarDay(options.now, options.timezone)
+  const todayKey = formatDate(today)
+  const eventDays = new Set(events.map(event => normalizeEvent(event, options).startsAt?.slice(0, 10)))
+  return pages
+    .flatMap(page => findDatesInText(page.content, today))
+    .every(day => day < todayKey || eventDays.has(day))
+}
+
+/**
+ * Scrapes and extracts events from every URL, reporting progress for each one
+ * through `send` as it happens. A failing URL never fails the run; its
+ * outcome is recorded in `sources` instead.
+ */
+export async function runScrape(
+  urls: string[],
+  options: ScrapeOptions,
+  send: (message: ScrapeProgress) => void = () => {}
+): Promise<ScrapeRunResult> {
+  const limit = createLimiter(Math.min(options.concurrency || DEFAULT_CONCURRENCY, MAX_CONCURRENCY))
+  const limitPerDomain = createKeyedLimiter(PER_DOMAIN_CONCURRENCY)
+  const normalizeOptions = {
+    timezone: options.timezone || DEFAULT_TIMEZONE,
+    now: options.now || new Date(),
+    defaultCurrency: DEFAULT_CURRENCY
+  }
+  const allEvents: Event[] = []
+  const sources: SourceStatus[] = []
+
+  // Spending is checked before every model call, repair calls included,
+  // against this run and the month so far. Each call is added to the month as
+  // it finishes, so runs going on at the same time see each other's spending
+  const budget = options.budget || budgetLimitsFromEnv()
+  const month = usageMonth()
+  let runUsage = emptyUsage()
+  let recorded: Promise<unknown> = Promise.resolve()
+  const recordMonthly = (call: TokenUsage) => {
+    recorded = recorded
+      .then(() => addMonthlyUsage(month, call))
+      .catch(error => console.error('Error recording model usage:', error))
+  }
+  const overBudget = async () => {
+    if (budget.monthlyUsd === undefined) return budgetReached(budget, options.provider.model, runUsage.costUsd, 0)
+    await recorded
+    return budgetReached(budget, options.provider.model, runUsage.costUsd, (await getMonthlyUsage(month)).costUsd)
+  }
+
+  // One browser for the whole request; each URL gets its own context
+  let browser: Browser | null = null
+  let launchError: unknown
+  try {
+    browser = await launchBrowser()
+  } catch (error) {
+    launchError = error
+  }
+
+  const processUrl = async (url: string) => {
+    const startedAt = Date.now()
+    const timings: SourceStatus['timings'] = { totalMs: 0 }
+    const cache: CacheStats = { hits: 0, misses: 0 }
+    let retries = 0
+    let usage = emptyUsage()
+    const metered = meterProvider(options.provider, call => {
+      usage = addUsage(usage, call)
+      runUsage = addUsage(runUsage, call)
+      recordMonthly(call)
+    })
+    const provider = budget.action === 'stop' ? limitProvider(metered, overBudget) : metered
+
+    try {
+      console.log(`Scraping ${url}...`)
+      send({ type: 'started', url })
+
+      if (!browser) {
+        throw launchError
+      }
+
+      // Settings can come straight from a request, so they're checked before use
+      const venue = cleanVenueOptions(options.venueOptions?.[url])
+      // A venue's own timezone wins over the run's
+      const venueNormalizeOptions = { ...normalizeOptions, timezone: venue.timezone || normalizeOptions.timezone }
+
+      // Scrape the website, trying again with exponential backoff when the failure may be temporary
+      let result: ScrapeResult
+      for (;;) {
+        await domainThrottle(domainOf(url))
+        try {
+          result = await scrapeWebsite(browser, url, {
+            ...venue,
+            now: normalizeOptions.now,
+            timeoutMs: options.pageTimeoutMs,
+            // Further pages of the venue wait their turn like any other load from the domain
+            beforePage: pageUrl => domainThrottle(domainOf(pageUrl))
+          })
+          break
+        } catch (error) {
+          const scrapeError = toScrapeError(error)
+          if (retries >= SCRAPE_RETRIES || !isRetryable(scrapeError)) throw scrapeError
+
+          const delayMs = SCRAPE_RETRY_BASE_SECONDS * 1000 * 2 ** retries
+          retries++
+          console.warn(`Retrying ${url} in ${delayMs / 1000}s (${scrapeError.message})`)
+          send({ type: 'retrying', url, retries, error: scrapeError.message })
+          await new Promise(resolve => setTimeout(resolve, delayMs))
+        }
+      }
+      const { pages, adapter } = result
+      timings.scrapeMs = Date.now() - startedAt
+      send({ type: 'scraped', url })
+
+      const extractStartedAt = Date.now()
+      let events: Event[] = []
+
+      // Schema.org events are parsed without the LLM, and venues whose markup
+      // lists every show on the page don't need it at all
+      const structured = parseStructuredEvents(pages.flatMap(page => page.structuredData), url)
+      if (adapter) {
+        events = adapter.events
+      } else {
+        // Otherwise the model reads the text too, and dedupeEvents below merges
+        // its events into the structured ones
+        events = [...structured.events]
+        const pagesToRead = structuredDataCoversPages(structured.events, pages, venueNormalizeOptions) ? [] : pages
+        // Paginated listings are extracted page by page, and long pages chunk
+        // by chunk; the events are merged below
+        for (const page of pagesToRead) {
+          // Only JSON-LD we couldn't parse ourselves is worth sending to the model
+          const unparsed = parseStructuredEvents(page.structuredData, url).unparsed
+          const prompt = unparsed.length > 0
+            ? `${page.content}\n\nSTRUCTURED DATA:\n${unparsed.join('\n\n')}`
+            : page.content
+
+          // Text-only models would otherwise get the same chunk once per tile.
+          // Over budget with the text-only fallback, pages from here on go without screenshots
+          const textOnly = budget.action === 'text-only' && !!(await overBudget())
+          const tiles = provider.supportsVision && !textOnly ? page.screenshots : []
+          for (const part of pairChunksWithTiles(chunkText(prompt, options.chunkTokens), tiles)) {
+            // Unchanged chunks reuse the earlier extraction instead of calling the model
+            const key = extractionCacheKey(part.content, part.screenshot, url, provider)
+            let extracted = options.cache?.refresh ? undefined : await getCachedExtraction(key, options.cache?.ttlHours)
+            if (extracted) {
+              cache.hits++
+            } else {
+              // Extract events using GPT
+              cache.misses++
+              extracted = await extractEventsWithGPT(part.content, part.screenshot, url, provider)
+              await setCachedExtraction(key, extracted)
+            }
+
+            // Checked against the whole page, since a chunk can split a date heading from its shows
+            events.push(...groundEvents(extracted, {
+              text: prompt,
+              links: page.links,
+              pageUrl: page.url,
+              today: calendarDay(normalizeOptions.now, venueNormalizeOptions.timezone),
+              usedScreenshot: !!part.screenshot
+            }))
+          }
+        }
+      }
+
+      const horizon = venue.daysAhead ? normalizeOptions.now.getTime() + venue.daysAhead * 86400000 : Infinity
+      events = dedupeEvents(
+        events
+          // The profile's name replaces whatever the page or hostname gave
+          .map(event => normalizeEvent({ ...event, ...(venue.venueName ? { venue: venue.venueName } : {}), sources: [url] }, venueNormalizeOptions))
+          .filter(event => isUpcoming(event, normalizeOptions.now))
+          .filter(event => (eventStartMs(event) ?? 0) <= horizon)
+      )
+
+      timings.extractMs = Date.now() - extractStartedAt
+      timings.totalMs = Date.now() - startedAt
+      const status: SourceStatus = {
+        url,
+        ok: true,
+        eventCount: events.length,
+        retries,
+        timings,
+        cache: cache.hits + cache.misses > 0 ? cache : undefined,
+        usage: usage.requests > 0 ? usage : undefined,
+        finishedAt: new Date().toISOString()
+      }
+      sources.push(status)
+      allEvents.push(...events)
+      send({ type: 'extracted', url, events, status })
+    } catch (error) {
+      console.error(`Error processing ${url}:`, error)
+      // Continue with other URLs even if one fails
+      const scrapeError = toScrapeError(error)
+      timings.totalMs = Date.now() - startedAt
+      const status: SourceStatus = {
+        url,
+        ok: false,
+        eventCount: 0,
+        errorCategory: scrapeError.category,
+        error: scrapeError.message,
+        httpStatus: scrapeError.httpStatus,
+        retries,
+        timings,
+        cache: cache.hits + cache.misses > 0 ? cache : undefined,
+        usage: usage.requests > 0 ? usage : undefined,
+        finishedAt: new Date().toISOString()
+      }
+      sources.push(status)
+      send({ type: 'failed', url, status })
+    }
+  }
+
+  try {
+    // Waiting on the domain first keeps queued same-site URLs from holding global slots
+    await Promise.all(urls.map(url =>
+      limitPerDomain(domainOf(url), () => limit(() => processUrl(url)))
+    ))
+  } finally {
+    await browser?.close()
+  }
+
+  const cache = sources.reduce(
+    (total, status) => ({ hits: total.hits + (status.cache?.hits || 0), misses: total.misses + (status.cache?.misses || 0) }),
+    { hits: 0, misses: 0 }
+  )
+  await recorded
+
+  send({ type: 'done', sources, cache, usage: runUsage })
+  return { events: sortEventsByDate(dedupeEvents(allEvents)), sources, cache, usage: runUsage }
+}
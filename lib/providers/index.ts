@@ -0,0 +1,85 @@
+import { createMockProvider, loadMockResponses } from './mock'
+import { createOpenAICompatibleProvider } from './openai'
+
+export type ExtractionRequest = {
+  systemPrompt: string
+  userPrompt: string
+  // Base64 JPEG; only sent to providers that support vision
+  screenshot?: string
+  // The page being extracted, for providers that key responses on it
+  url: string
+}
+
+export type Completion = {
+  content: string | null
+  // Tokens billed for the request, when the server reports them
+  usage?: { promptTokens: number; completionTokens: number }
+}
+
+/**
+ * A language model that turns an extraction prompt into the raw JSON text of
+ * its answer. Parsing and mapping to `Event` stay in lib/extract.ts so every
+ * provider is held to the same output handling.
+ */
+export type ExtractionProvider = {
+  name: string
+  model: string
+  supportsVision: boolean
+  complete(request: ExtractionRequest): Promise<Completion>
+}
+
+export type ProviderConfig = {
+  type: 'openai' | 'mock'
+  apiKey?: string
+  // OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string
+  model: string
+  vision: boolean
+  // Whether the server supports `response_format: { type: 'json_object' }`
+  jsonMode: boolean
+  // Mock only: JSON file of canned responses keyed by URL
+  mockResponsesPath?: string
+  // Per model request; the SDK's default (10 minutes) when unset
+  timeoutMs?: number
+}
+
+const flag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : !/^(0|false|no|off)$/i.test(value)
+
+export function providerConfigFromEnv(): ProviderConfig {
+  return {
+    type: process.env.LLM_PROVIDER === 'mock' ? 'mock' : 'openai',
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    model: process.env.LLM_MODEL || 'gpt-4o-mini',
+    vision: flag(process.env.LLM_VISION, true),
+    jsonMode: flag(process.env.LLM_JSON_MODE, true),
+    mockResponsesPath: process.env.LLM_MOCK_RESPONSES,
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_SECONDS || '0', 10) * 1000 || undefined
+  }
+}
+
+// Whether users may supply their own API key (bring-your-own-key) instead of the server's
+export const allowUserApiKeys = () => flag(process.env.ALLOW_USER_API_KEYS, true)
+
+/**
+ * Provider settings for a scrape started by a user: the server's model and
+ * endpoint, with the user's own key when they gave one and that's allowed,
+ * and the server's key otherwise.
+ */
+export function providerConfigForUser(userApiKey?: unknown): ProviderConfig {
+  const config = providerConfigFromEnv()
+  return typeof userApiKey === 'string' && userApiKey.trim() && allowUserApiKeys()
+    ? { ...config, apiKey: userApiKey.trim() }
+    : config
+}
+
+// Self-hosted servers usually don't check keys; OpenAI itself always does
+export const needsApiKey = (config: ProviderConfig) => config.type === 'openai' && !config.baseUrl && !config.apiKey
+
+export async function createProvider(config: ProviderConfig): Promise<ExtractionProvider> {
+  if (config.type === 'mock') {
+    return createMockProvider(config.mockResponsesPath ? await loadMockResponses(config.mockResponsesPath) : {})
+  }
+  return createOpenAICompatibleProvider(config)
+}
@@ -0,0 +1,27 @@
+import { readFile } from 'fs/promises'
+import type { ExtractionProvider } from '.'
+
+export type MockResponses = Record<string, unknown>
+
+export async function loadMockResponses(path: string): Promise<MockResponses> {
+  return JSON.parse(await readFile(path, 'utf8'))
+}
+
+/**
+ * Offline stand-in for a real model. Returns the canned response recorded for
+ * the page's URL (an object is serialized, a string returned as-is), the `*`
+ * entry if there is one, or no events. The same input always gives the same
+ * output, so the extraction pipeline can be exercised without network access.
+ */
+export function createMockProvider(responses: MockResponses = {}): ExtractionProvider {
+  return {
+    name: 'mock',
+    model: 'mock',
+    supportsVision: true,
+
+    async complete({ url }) {
+      const response = responses[url] ?? responses['*'] ?? { events: [] }
+      return { content: typeof response === 'string' ? response : JSON.stringify(response) }
+    }
+  }
+}
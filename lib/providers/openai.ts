@@ -0,0 +1,53 @@
+import OpenAI from 'openai'
+import { ScrapeError } from '../errors'
+import type { ExtractionProvider, ProviderConfig } from '.'
+
+export function createOpenAICompatibleProvider(config: ProviderConfig): ExtractionProvider {
+  const client = new OpenAI({
+    // The SDK insists on a key even for local servers that ignore it
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseUrl,
+    timeout: config.timeoutMs
+  })
+
+  return {
+    name: config.baseUrl ? `openai-compatible (${new URL(config.baseUrl).host})` : 'openai',
+    model: config.model,
+    supportsVision: config.vision,
+
+    async complete({ systemPrompt, userPrompt, screenshot }) {
+      const userContent: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [{ type: 'text', text: userPrompt }]
+      if (config.vision && screenshot) {
+        userContent.push({
+          type: 'image_url',
+          image_url: {
+            url: `data:image/jpeg;base64,${screenshot}`,
+            detail: 'high'
+          }
+        })
+      }
+
+      try {
+        const response = await client.chat.completions.create({
+          model: config.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            // Text-only servers may not accept content parts at all
+            { role: 'user', content: userContent.length === 1 ? userPrompt : userContent }
+          ],
+          temperature: 0.3,
+          ...(config.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+        })
+        return {
+          content: response.choices[0]?.message.content ?? null,
+          usage: response.usage
+            ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+            : undefined
+        }
+      } catch (error) {
+        const status = error instanceof OpenAI.APIError ? error.status : undefined
+        throw new ScrapeError('llm_error', error instanceof Error ? error.message : 'LLM request failed', status)
+      }
+    }
+  }
+}
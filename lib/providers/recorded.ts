@@ -0,0 +1,50 @@
+import { createHash } from 'crypto'
+import { ScrapeError } from '../errors'
+import type { ExtractionProvider, ExtractionRequest } from '.'
+
+export type Recording = {
+  // The model that was recorded, and whether it was sent screenshots; replays
+  // must match, since vision changes the prompts and how pages are split up
+  model: string
+  supportsVision: boolean
+  // Model responses keyed by `recordingKey` of the request that produced them
+  responses: Record<string, string | null>
+}
+
+// Prompts only: screenshots differ by a few pixels from one machine to the next
+export const recordingKey = ({ systemPrompt, userPrompt }: ExtractionRequest) =>
+  createHash('sha256').update(`${systemPrompt}\n\n${userPrompt}`).digest('hex')
+
+/**
+ * Replays model responses recorded earlier, so extraction can be re-run
+ * offline and deterministically. Requests without a recorded response fail,
+ * since a changed prompt or page means the recording is stale.
+ */
+export function createReplayProvider(recording: Recording): ExtractionProvider {
+  return {
+    name: 'recorded',
+    model: recording.model,
+    supportsVision: recording.supportsVision,
+
+    async complete(request) {
+      const key = recordingKey(request)
+      if (key in recording.responses) return { content: recording.responses[key] }
+      throw new ScrapeError('llm_error', `No recorded response for this prompt (${key.slice(0, 12)}); record the fixture again`)
+    }
+  }
+}
+
+// Passes requests through to `provider`, adding each response to `recording`
+export function createRecordingProvider(provider: ExtractionProvider, recording: Recording): ExtractionProvider {
+  recording.model = provider.model
+  recording.supportsVision = provider.supportsVision
+
+  return {
+    ...provider,
+    async complete(request) {
+      const completion = await provider.complete(request)
+      recording.responses[recordingKey(request)] = completion.content
+      return completion
+    }
+  }
+}
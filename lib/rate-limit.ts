@@ -0,0 +1,104 @@
+// Scrapes each client may start per window; 0 turns the limit off
+const SCRAPE_RATE_LIMIT = parseInt(process.env.SCRAPE_RATE_LIMIT || '10', 10)
+const SCRAPE_RATE_WINDOW_MINUTES = parseInt(process.env.SCRAPE_RATE_WINDOW_MINUTES || '15', 10)
+
+// Failed logins each client may make per username per window before being locked out; 0 turns the limit off
+const LOGIN_FAILURE_LIMIT = parseInt(process.env.LOGIN_FAILURE_LIMIT || '5', 10)
+const LOGIN_FAILURE_WINDOW_MINUTES = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15', 10)
+
+// Proxies in front of the app that append to X-Forwarded-For; 0 ignores the header
+const TRUSTED_PROXY_HOPS = Math.max(0, parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10) || 0)
+
+// Most URLs a single scrape request or calendar feed may ask for
+export const MAX_URLS_PER_SCRAPE = parseInt(process.env.MAX_URLS_PER_SCRAPE || '50', 10)
+
+export type RateLimitResult = {
+  allowed: boolean
+  // Seconds until the client's oldest request leaves the window
+  retryAfterSeconds: number
+}
+
+export type RateLimiter = (key: string, now?: number) => RateLimitResult
+
+/**
+ * Returns a sliding-window limiter allowing each key `limit` calls per
+ * `windowMs`. State lives in memory, so each server instance counts on its own.
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const calls = new Map<string, number[]>()
+
+  return (key, now = Date.now()) => {
+    if (limit <= 0) return { allowed: true, retryAfterSeconds: 0 }
+
+    // Forget clients that have gone quiet so the map doesn't grow forever
+    if (calls.size > 10000) {
+      calls.forEach((times, client) => {
+        if (times[times.length - 1] <= now - windowMs) calls.delete(client)
+      })
+    }
+
+    const recent = (calls.get(key) || []).filter(time => time > now - windowMs)
+    if (recent.length >= limit) {
+      calls.set(key, recent)
+      return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000) }
+    }
+    recent.push(now)
+    calls.set(key, recent)
+    return { allowed: true, retryAfterSeconds: 0 }
+  }
+}
+
+export type FailureLimiter = {
+  // Whether `key` may try again, without counting the attempt
+  check: (key: string, now?: number) => RateLimitResult
+  fail: (key: string, now?: number) => void
+}
+
+/**
+ * Like `createRateLimiter`, but only failures count: each key may fail
+ * `limit` times per `windowMs`, after which every attempt is refused until
+ * the oldest failure leaves the window.
+ */
+export function createFailureLimiter(limit: number, windowMs: number): FailureLimiter {
+  const failures = new Map<string, number[]>()
+  const recent = (key: string, now: number) => (failures.get(key) || []).filter(time => time > now - windowMs)
+
+  return {
+    check(key, now = Date.now()) {
+      const times = recent(key, now)
+      if (limit <= 0 || times.length < limit) return { allowed: true, retryAfterSeconds: 0 }
+      return { allowed: false, retryAfterSeconds: Math.ceil((times[0] + windowMs - now) / 1000) }
+    },
+    fail(key, now = Date.now()) {
+      if (limit <= 0) return
+      // Forget clients that have gone quiet so the map doesn't grow forever
+      if (failures.size > 10000) {
+        failures.forEach((times, client) => {
+          if (times[times.length - 1] <= now - windowMs) failures.delete(client)
+        })
+      }
+      failures.set(key, [...recent(key, now), now])
+    }
+  }
+}
+
+/**
+ * The address a request came from. Clients can put anything in
+ * `X-Forwarded-For`, so it's only read when TRUSTED_PROXY_HOPS says how many
+ * proxies append to it, and then only the entry the outermost of them added.
+ */
+export function clientAddress(request: Request & { ip?: string }): string {
+  if (request.ip) return request.ip
+  if (TRUSTED_PROXY_HOPS === 0) return 'unknown'
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean)
+  return forwarded[forwarded.length - TRUSTED_PROXY_HOPS] ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+}
+
+// Shared by every endpoint that launches a browser
+export const scrapeRateLimit = createRateLimiter(SCRAPE_RATE_LIMIT, SCRAPE_RATE_WINDOW_MINUTES * 60000)
+
+// Guards the login endpoint against password guessing
+export const loginFailureLimit = createFailureLimiter(LOGIN_FAILURE_LIMIT, LOGIN_FAILURE_WINDOW_MINUTES * 60000)
@@ -0,0 +1,137 @@
+import { ScrapeError } from './errors'
+import { checkUrl } from './url-safety'
+
+// The product token robots.txt groups are matched against, and the user agent
+// pages are loaded with; sites should be able to tell who is crawling them
+export const CRAWLER_NAME = process.env.CRAWLER_NAME || 'MusicEventsBot'
+export const USER_AGENT = process.env.SCRAPER_USER_AGENT || `Mozilla/5.0 (compatible; ${CRAWLER_NAME}/1.0)`
+
+// `false` skips robots.txt for every venue, not just those set to ignore it
+const RESPECT_ROBOTS_TXT = process.env.RESPECT_ROBOTS_TXT !== 'false'
+const ROBOTS_CACHE_HOURS = parseInt(process.env.ROBOTS_CACHE_HOURS || '24', 10)
+
+const ROBOTS_TIMEOUT_MS = 10000
+const MAX_ROBOTS_REDIRECTS = 5
+// Crawlers only have to read this much of a robots.txt (RFC 9309)
+const MAX_ROBOTS_CHARS = 500 * 1024
+
+type RobotsRule = { allow: boolean; pattern: string }
+
+const ALLOW_ALL: RobotsRule[] = []
+const DISALLOW_ALL: RobotsRule[] = [{ allow: false, pattern: '/' }]
+
+const robotsCache = new Map<string, { rules: Promise<RobotsRule[]>; expiresAt: number }>()
+
+/**
+ * The rules in a robots.txt that apply to `agent`: those of every group
+ * naming its product token, or of the `*` groups when none does.
+ */
+export function parseRobotsTxt(text: string, agent: string = CRAWLER_NAME): RobotsRule[] {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = []
+  let group: { agents: string[]; rules: RobotsRule[] } | undefined
+
+  for (const line of text.slice(0, MAX_ROBOTS_CHARS).split(/\r\n|\r|\n/)) {
+    const match = line.replace(/#.*$/, '').match(/^\s*([a-z-]+)\s*:\s*(.*?)\s*$/i)
+    if (!match) continue
+    const field = match[1].toLowerCase()
+    const value = match[2]
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share the rules that follow them
+      if (!group || group.rules.length > 0) {
+        group = { agents: [], rules: [] }
+        groups.push(group)
+      }
+      group.agents.push(value.toLowerCase())
+    } else if ((field === 'allow' || field === 'disallow') && group && value) {
+      group.rules.push({ allow: field === 'allow', pattern: value })
+    }
+  }
+
+  const named = groups.filter(({ agents }) => agents.includes(agent.toLowerCase()))
+  const applicable = named.length > 0 ? named : groups.filter(({ agents }) => agents.includes('*'))
+  return applicable.flatMap(({ rules }) => rules)
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Whether `url` may be crawled under `rules`: the rule with the longest
+ * matching pattern decides, and Allow wins a tie. `*` in a pattern matches
+ * anything and a trailing `$` anchors it to the end of the path.
+ */
+export function isAllowedByRules(rules: RobotsRule[], url: string): boolean {
+  const { pathname, search } = new URL(url)
+  const path = pathname + search
+  if (pathname === '/robots.txt') return true
+
+  let best: RobotsRule | undefined
+  for (const rule of rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule
+    }
+  }
+  return best ? best.allow : true
+}
+
+/**
+ * Fetches the rules for a site. A missing robots.txt (any 4xx) allows
+ * everything and a server error disallows everything, as RFC 9309 asks.
+ * When robots.txt can't be fetched at all, the page load is left to report why.
+ */
+async function fetchRobotsRules(origin: string): Promise<RobotsRule[]> {
+  let url = `${origin}/robots.txt`
+  try {
+    for (let redirects = 0; redirects <= MAX_ROBOTS_REDIRECTS; redirects++) {
+      // Redirects are followed by hand so each hop gets the same address check as pages
+      const blocked = await checkUrl(url)
+      if (blocked) throw new Error(blocked)
+
+      const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS)
+      })
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400 && location) {
+        url = new URL(location, url).toString()
+        continue
+      }
+      if (response.status >= 500) return DISALLOW_ALL
+      if (!response.ok) return ALLOW_ALL
+      return parseRobotsTxt(await response.text())
+    }
+    throw new Error('Too many redirects')
+  } catch (error) {
+    console.warn(`Could not fetch robots.txt for ${origin}:`, error instanceof Error ? error.message : error)
+    robotsCache.delete(origin)
+    return ALLOW_ALL
+  }
+}
+
+// Whether robots.txt lets us load `url`; each site's robots.txt is fetched once per ROBOTS_CACHE_HOURS
+export async function isAllowedByRobots(url: string): Promise<boolean> {
+  if (!RESPECT_ROBOTS_TXT) return true
+
+  const { origin } = new URL(url)
+  let cached = robotsCache.get(origin)
+  if (!cached || cached.expiresAt < Date.now()) {
+    cached = { rules: fetchRobotsRules(origin), expiresAt: Date.now() + ROBOTS_CACHE_HOURS * 3600000 }
+    robotsCache.set(origin, cached)
+  }
+  return isAllowedByRules(await cached.rules, url)
+}
+
+export async function assertAllowedByRobots(url: string): Promise<void> {
+  if (!(await isAllowedByRobots(url))) {
+    throw new ScrapeError('robots_disallowed', `robots.txt on ${new URL(url).host} doesn't allow ${CRAWLER_NAME} to load this page`)
+  }
+}
@@ -0,0 +1,98 @@
+import { sendWatchAlerts } from './alerts'
+import { nextCronTime } from './cron'
+import { runScrape } from './pipeline'
+import { createProvider, needsApiKey, providerConfigFromEnv } from './providers'
+import { createRun, finishRun, getLists, getRuns } from './store'
+import type { ScrapeRun, URLList } from './types'
+
+const TICK_MS = 60000
+
+// Lists with a scheduled run in progress, so a slow run isn't started twice
+const running = new Set<string>()
+
+async function isDue(list: URLList, now: Date): Promise<boolean> {
+  if (!list.schedule || list.urls.length === 0 || running.has(list.id)) return false
+
+  // Runs missed while the server was down collapse into one
+  const lastScheduled = (await getRuns(list.id)).find(run => run.trigger === 'scheduled')
+  const since = lastScheduled ? new Date(lastScheduled.startedAt) : new Date(list.schedule.since)
+  try {
+    return nextCronTime(list.schedule.cron, since, list.schedule.timezone) <= now
+  } catch (error) {
+    console.error(`Invalid schedule for list ${list.id}:`, error)
+    return false
+  }
+}
+
+async function runScheduledList(list: URLList): Promise<ScrapeRun | undefined> {
+  running.add(list.id)
+  try {
+    const providerConfig = providerConfigFromEnv()
+    const provider = await createProvider(providerConfig)
+    const run = await createRun(list.id, list.urls, 'scheduled')
+    console.log(`Running scheduled scrape of "${list.name}"...`)
+
+    const result = await runScrape(list.urls, {
+      provider,
+      timezone: list.schedule?.timezone,
+      venueOptions: list.venueOptions
+    })
+    const finished = await finishRun(run.id, result)
+    if (finished) await sendWatchAlerts(list, finished)
+    return finished
+  } finally {
+    running.delete(list.id)
+  }
+}
+
+/**
+ * Starts every scheduled list whose next run time has passed and waits for
+ * them to finish. Scheduled runs use the server's model configuration, since
+ * there is no user around to supply a key.
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<ScrapeRun[]> {
+  const lists = await getLists()
+  const due: URLList[] = []
+  for (const list of lists) {
+    if (await isDue(list, now)) due.push(list)
+  }
+  if (due.length === 0) return []
+
+  if (needsApiKey(providerConfigFromEnv())) {
+    console.error('Skipping scheduled scrapes: OPENAI_API_KEY is not set on the server')
+    return []
+  }
+
+  // One list at a time; each run already scrapes its URLs in parallel
+  const runs: ScrapeRun[] = []
+  for (const list of due) {
+    try {
+      const run = await runScheduledList(list)
+      if (run) runs.push(run)
+    } catch (error) {
+      console.error(`Scheduled scrape of list ${list.id} failed:`, error)
+    }
+  }
+  return runs
+}
+
+let timer: ReturnType<typeof setInterval> | undefined
+
+// Checks for due lists once a minute in long-running servers (see instrumentation.ts)
+export function startScheduler() {
+  if (timer) return
+
+  let ticking = false
+  timer = setInterval(async () => {
+    if (ticking) return
+    ticking = true
+    try {
+      await runDueSchedules()
+    } catch (error) {
+      console.error('Error in scheduler:', error)
+    } finally {
+      ticking = false
+    }
+  }, TICK_MS)
+  console.log('Scrape scheduler started')
+}
@@ -0,0 +1,452 @@
+import { chromium, type Browser, type Page } from 'playwright'
+import { findAdapter } from './adapters'
+import { ScrapeError, looksLikeBotBlock } from './errors'
+import { calendarDay, findDatesInText } from './normalize'
+import { USER_AGENT, assertAllowedByRobots, isAllowedByRobots } from './robots'
+import type { Event, VenueOptions } from './types'
+import { assertPublicUrl, guardContext } from './url-safety'
+
+export type ScrapedPage = {
+  url: string
+  content: string
+  // Viewport-sized JPEG segments of the page, top to bottom
+  screenshots: string[]
+  structuredData: string[]
+  // Absolute http(s) targets of every link on the page
+  links: string[]
+}
+
+export type ScrapeResult = {
+  // The listing page first, followed by any pages reached through pagination.
+  // Empty when a site adapter read the events
+  pages: ScrapedPage[]
+  adapter?: { name: string; events: Event[] }
+}
+
+export type ScrapeOptions = VenueOptions & {
+  now?: Date
+  // Per navigation (default 30s)
+  timeoutMs?: number
+  // Awaited before loading each further page, e.g. to keep to a per-domain delay
+  beforePage?: (url: string) => Promise<void>
+}
+
+// Upper bound on pages per venue, whatever a venue's settings ask for
+export const MAX_PAGES_LIMIT = 10
+
+// Screenshot segments per page; text below the last one is still extracted
+const MAX_SCREENSHOT_TILES = parseInt(process.env.MAX_SCREENSHOT_TILES || '6', 10)
+
+const VIEWPORT = { width: 1920, height: 1080 }
+
+const NAVIGATION_TIMEOUT_MS = 30000
+
+// Text of controls that reveal more events in place
+const LOAD_MORE_PATTERN = /^(load|show|view|see) more( events| shows)?$|^more (events|shows)$/i
+
+// Text or labels of controls that lead to the next page or month
+const NEXT_PATTERN = /^(next( page| month| events| week)?|older( events)?|upcoming|more events|›|»|→|>|>>)$/i
+
+/**
+ * Launches the Chromium instance shared by every page scraped in a request.
+ * Callers own the browser and must close it when they're done.
+ */
+export function launchBrowser(): Promise<Browser> {
+  return chromium.launch({
+    headless: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-accelerated-2d-canvas',
+      '--no-first-run',
+      '--disable-gpu'
+    ]
+  })
+}
+
+// Scroll down to trigger lazy loading
+async function autoScroll(page: Page) {
+  await page.evaluate(() => {
+    return new Promise<void>((resolve) => {
+      let totalHeight = 0
+      const distance = 100
+      const timer = setInterval(() => {
+        const scrollHeight = document.body.scrollHeight
+        window.scrollBy(0, distance)
+        totalHeight += distance
+
+        if (totalHeight >= scrollHeight) {
+          clearInterval(timer)
+          // Scroll back to top
+          window.scrollTo(0, 0)
+          setTimeout(resolve, 1000)
+        }
+      }, 100)
+    })
+  })
+}
+
+async function capturePage(page: Page, listingSelector?: string): Promise<ScrapedPage> {
+  const structuredData = await page.evaluate(() =>
+    Array.from(document.querySelectorAll('script[type="application/ld+json"]'))
+      .map(script => script.textContent || '')
+      .filter(Boolean)
+  )
+
+  const links = await page.evaluate(() =>
+    Array.from(new Set(
+      Array.from(document.querySelectorAll('a[href]'))
+        .map(link => (link as HTMLAnchorElement).href)
+        .filter(href => /^https?:/.test(href))
+    ))
+  )
+
+  // Get the page content
+  const content = await page.evaluate((listingSelector) => {
+    // Script and style elements are skipped rather than removed, so the page
+    // keeps working (and looking right) for pagination and the screenshot
+    const skippedElements = ['script', 'style', 'noscript']
+
+    // Get text content with some structure preserved
+    const getTextWithStructure = (element: Element): string => {
+      let text = ''
+      
+      // Add newlines for block elements
+      const blockElements = ['div', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'tr', 'article', 'section']
+      
+      for (const child of element.childNodes) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          const nodeText = child.textContent?.trim()
+          if (nodeText) {
+            text += nodeText + ' '
+          }
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+          const elem = child as Element
+          const tagName = elem.tagName.toLowerCase()
+          if (skippedElements.includes(tagName)) continue
+          
+          if (blockElements.includes(tagName)) {
+            text += '\n'
+          }
+          
+          text += getTextWithStructure(elem)
+
+          // Link targets go in the text so the model can give each event its own page
+          if (tagName === 'a') {
+            const href = (elem as HTMLAnchorElement).href
+            const samePage = href.split('#')[0] === window.location.href.split('#')[0]
+            if (/^https?:/.test(href) && !samePage) {
+              text += `[${href}] `
+            }
+          }
+          
+          if (blockElements.includes(tagName)) {
+            text += '\n'
+          }
+        }
+      }
+      
+      return text
+    }
+
+    const root = document.body || document.documentElement
+
+    // Try to find event-related sections, unless the venue names its listing container
+    const eventKeywords = ['events', 'calendar', 'shows', 'concerts', 'schedule', 'upcoming', 'performances', 'gigs']
+    const matches = listingSelector
+      ? Array.from(root.querySelectorAll(listingSelector))
+      : Array.from(root.querySelectorAll('*')).filter(el => {
+        if (skippedElements.includes(el.tagName.toLowerCase())) return false
+        if (!el.textContent || el.textContent.length <= 50) return false
+        const text = el.textContent.toLowerCase()
+        const className = el.className?.toString().toLowerCase() || ''
+        const id = el.id?.toLowerCase() || ''
+        return eventKeywords.some(keyword => text.includes(keyword) || className.includes(keyword) || id.includes(keyword))
+      })
+
+    // A section nested in another matching section is already part of its
+    // text, so only the outermost matches are kept and each appears once
+    const matchSet = new Set(matches)
+    const outermost = matches.filter(el => {
+      for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+        if (matchSet.has(parent)) return false
+      }
+      return true
+    })
+
+    let eventContent = outermost.map(getTextWithStructure).join('\n\n')
+
+    // If no specific event sections found, get the main content
+    if (!eventContent.trim()) {
+      const main = document.querySelector('main') || root
+      eventContent = getTextWithStructure(main)
+    }
+
+    // Block elements each add their own line breaks; keep at most one blank line
+    eventContent = eventContent
+      .split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+
+    return `URL: ${window.location.href}\n\nPAGE CONTENT:\n${eventContent}`
+  }, listingSelector)
+
+  return {
+    url: page.url(),
+    content,
+    screenshots: await captureTiles(page),
+    structuredData,
+    links
+  }
+}
+
+// One tall full-page image becomes unreadable once the model downscales it,
+// so the page is captured as viewport-sized segments instead
+async function captureTiles(page: Page): Promise<string[]> {
+  const { width, height } = page.viewportSize() || VIEWPORT
+  const pageHeight = await page.evaluate(() => document.documentElement.scrollHeight)
+  const tiles: string[] = []
+
+  for (let y = 0; y < pageHeight && tiles.length < MAX_SCREENSHOT_TILES; y += height) {
+    // A sliver left at the bottom isn't worth its own model call
+    if (y > 0 && pageHeight - y < height / 10) break
+
+    const tile = await page.screenshot({
+      fullPage: true,
+      clip: { x: 0, y, width, height: Math.min(height, pageHeight - y) },
+      type: 'jpeg',
+      quality: 80
+    })
+    tiles.push(tile.toString('base64'))
+  }
+
+  return tiles
+}
+
+/**
+ * Marks the first visible control matching `pattern` (by text, aria-label or
+ * title) with a data attribute so it can be clicked, and returns its link
+ * target if it has one. For next-page detection, `rel="next"` links and
+ * `?page=N+1` style links count too.
+ */
+async function markControl(page: Page, kind: 'next' | 'more'): Promise<{ found: boolean; href?: string }> {
+  return page.evaluate(({ kind, nextSource, moreSource }) => {
+    document.querySelectorAll('[data-scraper-control]').forEach(el => el.removeAttribute('data-scraper-control'))
+
+    const pattern = new RegExp(kind === 'next' ? nextSource : moreSource, 'i')
+    const isVisible = (el: Element) => {
+      const rect = el.getBoundingClientRect()
+      const style = window.getComputedStyle(el)
+      return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none'
+    }
+    const label = (el: Element) =>
+      [el.textContent, el.getAttribute('aria-label'), el.getAttribute('title')]
+        .map(value => (value || '').replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+
+    const candidates = Array.from(document.querySelectorAll('a, button, [role="button"]'))
+      .filter(el => isVisible(el) && !el.hasAttribute('disabled') && el.getAttribute('aria-disabled') !== 'true')
+
+    let match = candidates.find(el => label(el).some(text => pattern.test(text)))
+
+    if (!match && kind === 'next') {
+      match = Array.from(document.querySelectorAll('a[rel~="next"]')).find(isVisible)
+
+      // Numbered pagination: a link to page N+1 of the current page number
+      if (!match) {
+        const current = new URL(window.location.href)
+        const pageParam = ['page', 'p', 'pg'].find(name => current.searchParams.has(name))
+        const currentNumber = pageParam ? parseInt(current.searchParams.get(pageParam) || '1', 10) : 1
+        match = candidates.find(el => {
+          const href = el.getAttribute('href')
+          if (!href) return false
+          const target = new URL(href, window.location.href)
+          const targetNumber = ['page', 'p', 'pg'].map(name => target.searchParams.get(name)).find(Boolean) ||
+            target.pathname.match(/\/page\/(\d+)\/?$/)?.[1]
+          return target.origin === current.origin && parseInt(targetNumber || '', 10) === currentNumber + 1
+        })
+      }
+    }
+
+    if (!match) {
+      const link = kind === 'next' ? document.querySelector('link[rel~="next"]') : null
+      const href = link?.getAttribute('href')
+      return href ? { found: true, href: new URL(href, window.location.href).toString() } : { found: false }
+    }
+
+    match.setAttribute('data-scraper-control', kind)
+    const href = match.getAttribute('href')
+    const isRealLink = href && !href.startsWith('#') && !href.startsWith('javascript:')
+    return { found: true, href: isRealLink ? new URL(href, window.location.href).toString() : undefined }
+  }, { kind, nextSource: NEXT_PATTERN.source, moreSource: LOAD_MORE_PATTERN.source })
+}
+
+const pageFingerprint = (page: Page) =>
+  page.evaluate(() => `${window.location.href}|${document.body?.innerText.length || 0}|${(document.body?.innerText || '').slice(0, 2000)}`)
+
+async function settle(page: Page) {
+  await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+  await page.waitForTimeout(1500)
+}
+
+// Whether the page already lists dates past the venue's crawl horizon
+function reachesHorizon(content: string, options: ScrapeOptions): boolean {
+  if (!options.daysAhead) return false
+  const now = options.now || new Date()
+  const horizon = new Date(now.getTime() + options.daysAhead * 86400000).toISOString().slice(0, 10)
+  return findDatesInText(content, calendarDay(now, 'UTC')).some(date => date > horizon)
+}
+
+/**
+ * Loads a venue page and, when the venue allows more than one page, follows
+ * its "load more" buttons and next-page/next-month controls until the page
+ * limit or the `daysAhead` horizon is reached. Each page is read by a site
+ * adapter if one matches and finds events, and captured for extraction otherwise. The venue's profile can also name an element to wait
+ * for, elements to click first and the container the listing is read from.
+ */
+export async function scrapeWebsite(browser: Browser, url: string, options: ScrapeOptions = {}): Promise<ScrapeResult> {
+  const maxPages = Math.min(Math.max(1, options.maxPages || 1), MAX_PAGES_LIMIT)
+  const timeout = options.timeoutMs || NAVIGATION_TIMEOUT_MS
+
+  await assertPublicUrl(url)
+  if (!options.ignoreRobots) {
+    await assertAllowedByRobots(url)
+  }
+
+  // Each URL gets its own context so cookies and storage never leak between venues.
+  // Service workers would bypass the request checks, so they're off
+  const context = await browser.newContext({
+    userAgent: USER_AGENT,
+    viewport: VIEWPORT,
+    serviceWorkers: 'block'
+  })
+
+  try {
+    const guard = await guardContext(context)
+    const page = await context.newPage()
+    const scroll = () => options.scroll === false ? Promise.resolve() : autoScroll(page)
+    const beforePage = (pageUrl: string) => options.beforePage ? options.beforePage(pageUrl) : Promise.resolve()
+    // A clicked control can navigate as well, which robots.txt has a say in too
+    const leftAllowedPages = async (previousUrl: string) =>
+      !options.ignoreRobots && page.url() !== previousUrl && !(await isAllowedByRobots(page.url()))
+    
+    // Set timeout and navigate; a blocked redirect reports why rather than a bare net error
+    const response = await page.goto(url, { 
+      waitUntil: 'networkidle',
+      timeout
+    }).catch(async error => {
+      await guard.check()
+      throw error
+    })
+    await guard.check()
+
+    // Wait for the venue's listing widget if it names one, otherwise give
+    // dynamic content a fixed time to load
+    let waitedFor = true
+    if (options.waitForSelector) {
+      waitedFor = await page.waitForSelector(options.waitForSelector, { timeout }).then(() => true, () => false)
+    } else {
+      await page.waitForTimeout(5000)
+    }
+
+    const title = await page.title()
+    const bodyText = await page.evaluate(() => document.body?.innerText || '')
+    if (looksLikeBotBlock(title, bodyText)) {
+      throw new ScrapeError('bot_block', `Blocked by bot protection ("${title}")`, response?.status())
+    }
+    if (response && response.status() >= 400) {
+      throw new ScrapeError('http_status', `HTTP ${response.status()} ${response.statusText()}`, response.status())
+    }
+    if (!waitedFor) {
+      throw new ScrapeError('navigation_timeout', `"${options.waitForSelector}" did not appear within ${timeout / 1000}s`)
+    }
+
+    // Cookie banners and the like only show up some of the time, so a missing element is skipped
+    for (const selector of options.clickSelectors || []) {
+      const clicked = await page.click(selector, { timeout: 5000 }).then(() => true, () => false)
+      if (clicked) {
+        await settle(page)
+      } else {
+        console.warn(`Nothing to click for "${selector}" on ${url}`)
+      }
+    }
+
+    await scroll()
+
+    // Known ticketing platforms and widgets are read directly, no text dump needed
+    const adapter = await findAdapter(page, url)
+
+    // "Load more" buttons grow the same page, so each click counts as a page
+    // and everything is captured once at the end
+    let pagesUsed = 1
+    while (pagesUsed < maxPages) {
+      const before = await pageFingerprint(page)
+      if (reachesHorizon(await page.evaluate(() => document.body?.innerText || ''), options)) break
+      const more = await markControl(page, 'more')
+      if (!more.found || more.href) break
+
+      const previousUrl = page.url()
+      await beforePage(previousUrl)
+      await page.click('[data-scraper-control="more"]', { timeout: 5000 }).catch(() => {})
+      await settle(page)
+      if (await leftAllowedPages(previousUrl)) {
+        // The listing is captured after this loop, so don't leave it on the disallowed page
+        await page.goBack({ waitUntil: 'networkidle', timeout }).catch(() => null)
+        break
+      }
+      if (await pageFingerprint(page) === before) break
+      await scroll()
+      pagesUsed++
+    }
+
+    // Widget signatures are loose, so an adapter that finds nothing (say, for
+    // a page that only loads a widget's script) hands the page back to the
+    // generic path instead of ending with an empty result
+    const adapterEvents = adapter ? await adapter.extract(page, url) : []
+    if (adapter && adapterEvents.length === 0) {
+      console.warn(`The ${adapter.name} adapter found no events on ${url}; reading the page instead`)
+    }
+    const useAdapter = adapterEvents.length > 0
+    const pages = useAdapter ? [] : [await capturePage(page, options.listingSelector)]
+    const visited = new Set([page.url()])
+
+    while (pagesUsed < maxPages && !reachesHorizon(await page.evaluate(() => document.body?.innerText || ''), options)) {
+      const next = await markControl(page, 'next')
+      if (!next.found) break
+
+      if (next.href) {
+        if (visited.has(next.href) || new URL(next.href).origin !== new URL(page.url()).origin) break
+        if (!options.ignoreRobots && !(await isAllowedByRobots(next.href))) break
+        await beforePage(next.href)
+        const nextResponse = await page.goto(next.href, { waitUntil: 'networkidle', timeout }).catch(() => null)
+        if (!nextResponse || nextResponse.status() >= 400) break
+        await page.waitForTimeout(2000)
+      } else {
+        // Calendar widgets usually swap months in place without a URL change
+        const before = await pageFingerprint(page)
+        const previousUrl = page.url()
+        await beforePage(previousUrl)
+        await page.click('[data-scraper-control="next"]', { timeout: 5000 }).catch(() => {})
+        await settle(page)
+        if (await leftAllowedPages(previousUrl) || await pageFingerprint(page) === before) break
+      }
+
+      await scroll()
+      visited.add(page.url())
+      if (useAdapter && adapter) {
+        adapterEvents.push(...await adapter.extract(page, url))
+      } else {
+        pages.push(await capturePage(page, options.listingSelector))
+      }
+      pagesUsed++
+    }
+
+    await guard.check()
+    return useAdapter && adapter ? { pages, adapter: { name: adapter.name, events: adapterEvents } } : { pages }
+  } finally {
+    await context.close()
+  }
+}
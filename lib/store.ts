@@ -0,0 +1,238 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { diffRuns } from './changes'
+import type { ScrapeRun, TokenUsage, URLList, WatchedArtist } from './types'
+import { normalizeVenueOptions } from './urls'
+import { addUsage, emptyUsage } from './usage'
+import { newWatchMatches } from './watchlist'
+
+type StoreData = {
+  lists: URLList[]
+  runs: ScrapeRun[]
+  watchlist: WatchedArtist[]
+  // Model usage of every run, totalled by month (see `usageMonth`)
+  usage: Record<string, TokenUsage>
+}
+
+// Older runs are dropped so the store file doesn't grow without bound
+const MAX_RUNS_PER_LIST = parseInt(process.env.MAX_RUNS_PER_LIST || '50', 10)
+
+const storePath = () => path.join(process.env.DATA_DIR || path.join(process.cwd(), 'data'), 'store.json')
+
+async function load(): Promise<StoreData> {
+  try {
+    const data = JSON.parse(await readFile(storePath(), 'utf8'))
+    return { lists: data.lists || [], runs: data.runs || [], watchlist: data.watchlist || [], usage: data.usage || {} }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { lists: [], runs: [], watchlist: [], usage: {} }
+    }
+    throw error
+  }
+}
+
+// Writes go through one promise chain so concurrent requests can't interleave
+// a read-modify-write, and land via rename so a crash never leaves half a file
+let queue: Promise<unknown> = Promise.resolve()
+
+function update<T>(mutate: (data: StoreData) => T): Promise<T> {
+  const next = queue.then(async () => {
+    const data = await load()
+    const result = mutate(data)
+    const file = storePath()
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(`${file}.tmp`, JSON.stringify(data, null, 2))
+    await rename(`${file}.tmp`, file)
+    return result
+  })
+  queue = next.catch(() => {})
+  return next
+}
+
+async function read<T>(select: (data: StoreData) => T): Promise<T> {
+  await queue
+  return select(await load())
+}
+
+export const getLists = () => read(data => data.lists)
+
+export const getList = (id: string) => read(data => data.lists.find(list => list.id === id))
+
+export function createList(fields: Pick<URLList, 'name'> & Partial<Pick<URLList, 'urls' | 'venueOptions'>>): Promise<URLList> {
+  return update(data => {
+    const list: URLList = {
+      id: uuidv4(),
+      name: fields.name,
+      urls: fields.urls || [],
+      venueOptions: fields.venueOptions,
+      createdAt: new Date().toISOString()
+    }
+    data.lists.push(list)
+    return list
+  })
+}
+
+// A `schedule` of null turns scheduling off
+export function updateList(
+  id: string,
+  patch: Partial<Pick<URLList, 'name' | 'urls' | 'venueOptions'>> & { schedule?: URLList['schedule'] | null }
+): Promise<URLList | undefined> {
+  return update(data => {
+    const list = data.lists.find(list => list.id === id)
+    if (!list) return undefined
+    const { schedule, ...fields } = patch
+    Object.assign(list, fields)
+    // Settings follow their URL when the URLs are replaced: re-keyed to the
+    // normalized URL, and dropped along with URLs that left the list
+    if (patch.urls && list.venueOptions) {
+      const urls = new Set(list.urls)
+      list.venueOptions = Object.fromEntries(
+        Object.entries(normalizeVenueOptions(list.venueOptions) || {}).filter(([url]) => urls.has(url))
+      )
+    }
+    if (schedule === null) {
+      delete list.schedule
+    } else if (schedule) {
+      list.schedule = schedule
+    }
+    return list
+  })
+}
+
+/**
+ * Appends URLs (already normalized) to a list, skipping any it already has.
+ * Also reports the ids of other lists that contain each added URL.
+ */
+export function addUrls(id: string, urls: string[]): Promise<{
+  list: URLList
+  added: string[]
+  duplicates: string[]
+  elsewhere: { url: string; listIds: string[] }[]
+} | undefined> {
+  return update(data => {
+    const list = data.lists.find(list => list.id === id)
+    if (!list) return undefined
+
+    const added = urls.filter((url, index) => !list.urls.includes(url) && urls.indexOf(url) === index)
+    const duplicates = urls.filter(url => !added.includes(url))
+    list.urls.push(...added)
+
+    const elsewhere = added
+      .map(url => ({ url, listIds: data.lists.filter(other => other.id !== id && other.urls.includes(url)).map(other => other.id) }))
+      .filter(entry => entry.listIds.length > 0)
+    return { list, added, duplicates, elsewhere }
+  })
+}
+
+// By position, so one of two identical entries can be removed on its own
+export function removeUrlAt(id: string, index: number): Promise<URLList | undefined> {
+  return update(data => {
+    const list = data.lists.find(list => list.id === id)
+    if (!list || index < 0 || index >= list.urls.length) return undefined
+
+    const [url] = list.urls.splice(index, 1)
+    if (!list.urls.includes(url) && list.venueOptions) {
+      delete list.venueOptions[url]
+    }
+    return list
+  })
+}
+
+export function deleteList(id: string): Promise<boolean> {
+  return update(data => {
+    const before = data.lists.length
+    data.lists = data.lists.filter(list => list.id !== id)
+    data.runs = data.runs.filter(run => run.listId !== id)
+    return data.lists.length < before
+  })
+}
+
+/**
+ * Adds lists created elsewhere (the browser's localStorage, before lists were
+ * stored on the server), keeping their ids. Lists that already exist are skipped.
+ */
+export function importLists(lists: URLList[]): Promise<URLList[]> {
+  return update(data => {
+    const imported = lists.filter(list => !data.lists.some(existing => existing.id === list.id))
+    data.lists.push(...imported)
+    return imported
+  })
+}
+
+export function createRun(listId: string, urls: string[], trigger: ScrapeRun['trigger'] = 'manual'): Promise<ScrapeRun> {
+  return update(data => {
+    const run: ScrapeRun = {
+      id: uuidv4(),
+      listId,
+      trigger,
+      urls,
+      startedAt: new Date().toISOString(),
+      events: [],
+      sources: []
+    }
+    data.runs.push(run)
+
+    const listRuns = data.runs.filter(r => r.listId === listId)
+    if (listRuns.length > MAX_RUNS_PER_LIST) {
+      const dropped = new Set(listRuns.slice(0, listRuns.length - MAX_RUNS_PER_LIST).map(r => r.id))
+      data.runs = data.runs.filter(r => !dropped.has(r.id))
+    }
+    return run
+  })
+}
+
+/**
+ * Records a run's results along with what changed since the list's previous
+ * finished run, including shows by watched artists that are new.
+ */
+export function finishRun(id: string, result: Pick<ScrapeRun, 'events' | 'sources' | 'cache' | 'usage'>): Promise<ScrapeRun | undefined> {
+  return update(data => {
+    const run = data.runs.find(run => run.id === id)
+    if (!run) return undefined
+
+    const previous = data.runs.filter(r => r.listId === run.listId && r.id !== run.id && r.finishedAt).pop()
+    Object.assign(run, result, {
+      finishedAt: new Date().toISOString(),
+      changes: previous ? diffRuns(previous, result) : undefined,
+      watchAlerts: newWatchMatches(result.events, previous?.events || [], data.watchlist)
+    })
+    return run
+  })
+}
+
+// Newest first
+export const getRuns = (listId?: string) =>
+  read(data => data.runs.filter(run => !listId || run.listId === listId).reverse())
+
+export const getRun = (id: string) => read(data => data.runs.find(run => run.id === id))
+
+export const getLatestRun = (listId: string) =>
+  read(data => data.runs.filter(run => run.listId === listId && run.finishedAt).pop())
+
+export const getWatchlist = () => read(data => data.watchlist)
+
+export function addWatchedArtist(name: string): Promise<WatchedArtist> {
+  return update(data => {
+    const artist: WatchedArtist = { id: uuidv4(), name, createdAt: new Date().toISOString() }
+    data.watchlist.push(artist)
+    return artist
+  })
+}
+
+export function removeWatchedArtist(id: string): Promise<boolean> {
+  return update(data => {
+    const before = data.watchlist.length
+    data.watchlist = data.watchlist.filter(artist => artist.id !== id)
+    return data.watchlist.length < before
+  })
+}
+
+export const getMonthlyUsage = (month: string) => read(data => data.usage[month] || emptyUsage())
+
+export function addMonthlyUsage(month: string, usage: TokenUsage): Promise<TokenUsage> {
+  return update(data => {
+    data.usage[month] = addUsage(data.usage[month] || emptyUsage(), usage)
+    return data.usage[month]
+  })
+}
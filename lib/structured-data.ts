@@ -0,0 +1,238 @@
+import type { Event } from './types'
+import { resolveHttpUrl } from './urls'
+
+type JsonObject = { [key: string]: unknown }
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  CAD: '$',
+  AUD: '$',
+  GBP: '£',
+  EUR: '€'
+}
+
+// Keys under which schema.org nodes commonly nest their events
+// (Place.event, Organization.events, ItemList.itemListElement, ...)
+const NESTED_KEYS = ['@graph', 'event', 'events', 'subEvent', 'itemListElement', 'item', 'mainEntity']
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value == null ? [] : Array.isArray(value) ? value : [value]
+
+const text = (value: unknown): string | undefined => {
+  if (typeof value === 'string') {
+    const cleaned = value
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&quot;/g, '"')
+      .replace(/&#0?39;|&apos;/g, "'")
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+    return cleaned || undefined
+  }
+  if (typeof value === 'number') return String(value)
+  if (isObject(value)) return text(value.name)
+  return undefined
+}
+
+// Matches Event and every schema.org Event subtype (MusicEvent, ComedyEvent,
+// Festival, ...), with or without a "schema:" / "https://schema.org/" prefix
+const isEventNode = (node: JsonObject): boolean =>
+  toArray(node['@type']).some(type => {
+    if (typeof type !== 'string') return false
+    const name = type.split(/[/:#]/).pop() || ''
+    return /Event$/.test(name) || name === 'Festival'
+  })
+
+function collectEventNodes(value: unknown, found: JsonObject[], seen: Set<unknown>) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectEventNodes(item, found, seen))
+    return
+  }
+  if (!isObject(value) || seen.has(value)) return
+  seen.add(value)
+
+  if (isEventNode(value)) {
+    found.push(value)
+  }
+  for (const key of NESTED_KEYS) {
+    if (key in value) {
+      collectEventNodes(value[key], found, seen)
+    }
+  }
+}
+
+// Keeps the venue's wall-clock date and time as written instead of converting
+// through the server's timezone
+function splitStartDate(startDate: string): { date: string; time: string } | null {
+  const match = startDate.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/)
+  if (!match) return null
+
+  const [, year, month, day, hours, minutes] = match
+  const monthName = MONTHS[parseInt(month, 10) - 1]
+  if (!monthName) return null
+
+  let time = 'TBA'
+  if (hours !== undefined) {
+    const h = parseInt(hours, 10)
+    const suffix = h >= 12 ? 'PM' : 'AM'
+    time = `${h % 12 || 12}:${minutes} ${suffix}`
+  }
+
+  return {
+    date: `${monthName} ${parseInt(day, 10)}, ${year}`,
+    time
+  }
+}
+
+function formatAmount(amount: unknown, currency: unknown): string | undefined {
+  const value = typeof amount === 'number' ? amount : parseFloat(String(amount ?? '').replace(/[^0-9.]/g, ''))
+  if (isNaN(value)) return undefined
+  if (value === 0) return 'Free'
+
+  const code = typeof currency === 'string' ? currency.toUpperCase() : 'USD'
+  const formatted = Number.isInteger(value) ? String(value) : value.toFixed(2)
+  const symbol = CURRENCY_SYMBOLS[code]
+  return symbol ? `${symbol}${formatted}` : `${formatted} ${code}`
+}
+
+function extractPrice(node: JsonObject): string | undefined {
+  if (node.isAccessibleForFree === true || node.isAccessibleForFree === 'true') {
+    return 'Free'
+  }
+
+  const prices: string[] = []
+  for (const offer of toArray(node.offers)) {
+    if (!isObject(offer)) continue
+    const currency = offer.priceCurrency
+
+    if (offer.lowPrice !== undefined || offer.highPrice !== undefined) {
+      const low = formatAmount(offer.lowPrice, currency)
+      const high = formatAmount(offer.highPrice, currency)
+      if (low && high && low !== high) {
+        prices.push(`${low} - ${high}`)
+      } else if (low || high) {
+        prices.push((low || high) as string)
+      }
+    } else if (offer.price !== undefined) {
+      const price = formatAmount(offer.price, currency)
+      if (price) prices.push(price)
+    }
+  }
+
+  const unique = Array.from(new Set(prices))
+  return unique.length > 0 ? unique.join(' / ') : undefined
+}
+
+// Numeric range across all offers, for the normalized price fields
+function extractPriceRange(node: JsonObject): Pick<Event, 'priceMin' | 'priceMax' | 'currency'> {
+  const amounts: number[] = []
+  let currency: string | undefined
+  for (const offer of toArray(node.offers)) {
+    if (!isObject(offer)) continue
+    for (const key of ['price', 'lowPrice', 'highPrice']) {
+      const value = parseFloat(String(offer[key] ?? '').replace(/[^0-9.]/g, ''))
+      if (!isNaN(value)) amounts.push(value)
+    }
+    if (typeof offer.priceCurrency === 'string') currency = offer.priceCurrency.toUpperCase()
+  }
+  if (amounts.length === 0) return {}
+  return { priceMin: Math.min(...amounts), priceMax: Math.max(...amounts), currency }
+}
+
+const isSoldOut = (node: JsonObject) =>
+  toArray(node.offers).some(offer => isObject(offer) && /SoldOut$/.test(String(offer.availability || '')))
+
+const isCancelled = (node: JsonObject) => /EventCancelled$/.test(String(node.eventStatus || ''))
+
+const isoString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+function extractVenue(node: JsonObject): string | undefined {
+  for (const location of toArray(node.location)) {
+    const name = text(location)
+    if (name) return name
+  }
+  return undefined
+}
+
+function resolveUrl(value: unknown, baseUrl: string): string | undefined {
+  const href = typeof value === 'string' ? value : isObject(value) ? value['@id'] : undefined
+  if (typeof href !== 'string' || !href.trim()) return undefined
+  return resolveHttpUrl(href, baseUrl)
+}
+
+function toEvent(node: JsonObject, baseUrl: string, fallbackVenue: string): Event | null {
+  const start = typeof node.startDate === 'string' ? splitStartDate(node.startDate) : null
+  const performer = toArray(node.performer).map(text).find(Boolean)
+  const eventName = text(node.name) || performer
+  if (!eventName || !start) return null
+
+  const offerUrl = toArray(node.offers).map(offer => isObject(offer) ? resolveUrl(offer.url, baseUrl) : undefined).find(Boolean)
+
+  let description = text(node.description)
+  if (description && description.length > 300) {
+    description = description.slice(0, 297).trimEnd() + '...'
+  }
+
+  return {
+    venue: extractVenue(node) || fallbackVenue,
+    eventName,
+    date: start.date,
+    time: start.time,
+    price: extractPrice(node),
+    description,
+    url: resolveUrl(node.url, baseUrl) || offerUrl || baseUrl,
+    source: 'structured',
+    // Raw schema.org values; normalizeEvent re-expresses them in the venue's timezone
+    startsAt: isoString(node.startDate),
+    endsAt: isoString(node.endDate),
+    doorsAt: isoString(node.doorTime),
+    ...extractPriceRange(node),
+    soldOut: isSoldOut(node),
+    cancelled: isCancelled(node)
+  }
+}
+
+/**
+ * Parses the raw contents of a page's `application/ld+json` blocks into events.
+ *
+ * Blocks that are not valid JSON are returned in `unparsed` so the caller can
+ * still hand them to the LLM.
+ */
+export function parseStructuredEvents(blocks: string[], baseUrl: string): { events: Event[]; unparsed: string[] } {
+  const nodes: JsonObject[] = []
+  const unparsed: string[] = []
+  const seen = new Set<unknown>()
+
+  for (const block of blocks) {
+    try {
+      collectEventNodes(JSON.parse(block), nodes, seen)
+    } catch {
+      unparsed.push(block)
+    }
+  }
+
+  const fallbackVenue = new URL(baseUrl).hostname.replace('www.', '')
+  const events: Event[] = []
+  const keys = new Set<string>()
+
+  for (const node of nodes) {
+    const event = toEvent(node, baseUrl, fallbackVenue)
+    if (!event) continue
+
+    const key = `${event.eventName}|${event.date}|${event.time}|${event.url}`
+    if (keys.has(key)) continue
+    keys.add(key)
+    events.push(event)
+  }
+
+  return { events, unparsed }
+}
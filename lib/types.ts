@@ -0,0 +1,185 @@
+// Where an event came from: parsed deterministically from schema.org JSON-LD,
+// read by a ticketing-platform adapter (see lib/adapters), or extracted by
+// the language model from page text and screenshot
+export type EventSource = 'structured' | 'adapter' | 'llm'
+
+export type Event = {
+  venue: string
+  eventName: string
+  date: string
+  time: string
+  price?: string
+  description?: string
+  url: string
+  source: EventSource
+  // Name of the site adapter that produced the event, when source is 'adapter'
+  adapter?: string
+  // Normalized fields, derived from the free text above (see lib/normalize.ts).
+  // Timestamps are ISO 8601 in the venue's timezone; date-only when no time is known
+  startsAt?: string
+  doorsAt?: string
+  endsAt?: string
+  timezone?: string
+  priceMin?: number
+  priceMax?: number
+  currency?: string
+  isFree?: boolean
+  soldOut?: boolean
+  cancelled?: boolean
+  // Every scraped page this event was found on, after deduplication
+  sources?: string[]
+  // For model-extracted events: the page text the model quoted for this event,
+  // and whether its name, date and quote could be found on the page (see lib/grounding.ts)
+  evidence?: string
+  confidence?: 'high' | 'low'
+  confidenceNotes?: string[]
+}
+
+// Per-venue crawl settings, stored with a URL list and keyed by URL
+export type VenueOptions = {
+  // Total pages to load, following "load more" and next-page/next-month controls (default 1)
+  maxPages?: number
+  // Stop paginating once a page lists dates this many days out, and drop later events
+  daysAhead?: number
+  // CSS selector to wait for after loading, instead of a fixed 5-second pause
+  waitForSelector?: string
+  // Elements to click, in order, before reading the page (cookie banners, "list view" tabs)
+  clickSelectors?: string[]
+  // Scroll to the bottom to trigger lazy loading (default true)
+  scroll?: boolean
+  // CSS selector for the listing container; its text replaces keyword-based section detection
+  listingSelector?: string
+  // IANA timezone the venue's times are in, instead of the run's
+  timezone?: string
+  // Venue name for every event from this URL, e.g. the room at a multi-room venue
+  venueName?: string
+  // Load the page even when the site's robots.txt disallows it
+  ignoreRobots?: boolean
+}
+
+// When a saved list re-scrapes itself
+export type ListSchedule = {
+  // Five-field cron expression, e.g. "0 8 * * 1,4" for Monday and Thursday at 8:00
+  cron: string
+  // Timezone the cron expression and the venues' times are read in
+  timezone: string
+  // When the schedule was set; the first run is the first match after this
+  since: string
+}
+
+export type URLList = {
+  id: string
+  name: string
+  urls: string[]
+  venueOptions?: Record<string, VenueOptions>
+  schedule?: ListSchedule
+  createdAt: string
+}
+
+export type ErrorCategory =
+  | 'navigation_timeout'
+  | 'navigation_error'
+  | 'http_status'
+  | 'bot_block'
+  | 'blocked_url'
+  | 'robots_disallowed'
+  | 'budget_exceeded'
+  | 'llm_error'
+  | 'invalid_json'
+  | 'unknown'
+
+// Page chunks whose extraction was reused from the cache vs. sent to the model
+export type CacheStats = {
+  hits: number
+  misses: number
+}
+
+// Model tokens spent, with their estimated cost (see lib/usage.ts)
+export type TokenUsage = {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  // Estimated share of promptTokens taken up by screenshots
+  imageTokens: number
+  // US dollars per the price table; 0 for models it doesn't list
+  costUsd: number
+}
+
+// Outcome of processing a single URL, reported whether it succeeded or not
+export type SourceStatus = {
+  url: string
+  ok: boolean
+  eventCount: number
+  errorCategory?: ErrorCategory
+  error?: string
+  httpStatus?: number
+  // Page loads retried after a timeout, network error, 429 or 5xx
+  retries?: number
+  timings: {
+    scrapeMs?: number
+    extractMs?: number
+    totalMs: number
+  }
+  // Only set when the URL went to the model
+  cache?: CacheStats
+  usage?: TokenUsage
+  finishedAt: string
+}
+
+// One line of the NDJSON stream returned by POST /api/scrape
+export type ScrapeProgress =
+  | { type: 'started'; url: string }
+  | { type: 'retrying'; url: string; retries: number; error: string }
+  | { type: 'scraped'; url: string }
+  | { type: 'extracted'; url: string; events: Event[]; status: SourceStatus }
+  | { type: 'failed'; url: string; status: SourceStatus }
+  | { type: 'done'; sources: SourceStatus[]; cache: CacheStats; usage: TokenUsage; runId?: string }
+  // The scrape itself broke down; always the last line
+  | { type: 'error'; error: string }
+
+// An artist to look out for across every list's results
+export type WatchedArtist = {
+  id: string
+  name: string
+  createdAt: string
+}
+
+export type WatchMatch = {
+  artistId: string
+  artist: string
+  event: Event
+}
+
+export type EventChange = {
+  event: Event
+  previous: Event
+}
+
+// What changed between a list's run and the run before it
+export type RunChanges = {
+  previousRunId: string
+  added: Event[]
+  // Same show, new date or start time
+  rescheduled: EventChange[]
+  priceChanged: EventChange[]
+  cancelled: Event[]
+  // Upcoming shows that are no longer listed by a venue that was scraped successfully
+  removed: Event[]
+}
+
+// One click of "Scrape Events" (or scheduled run) for a saved list
+export type ScrapeRun = {
+  id: string
+  listId: string
+  trigger: 'manual' | 'scheduled'
+  urls: string[]
+  startedAt: string
+  finishedAt?: string
+  events: Event[]
+  sources: SourceStatus[]
+  cache?: CacheStats
+  usage?: TokenUsage
+  changes?: RunChanges
+  // Shows by watched artists that the previous run didn't have
+  watchAlerts?: WatchMatch[]
+}
@@ -0,0 +1,199 @@
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+import type { BrowserContext } from 'playwright'
+import { ScrapeError } from './errors'
+
+// Lets local development and tests scrape pages served from this machine
+const ALLOW_PRIVATE_URLS = process.env.ALLOW_PRIVATE_URLS === 'true'
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, benchmarking,
+// documentation, multicast and reserved IPv4 ranges
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+]
+
+const ipv4ToNumber = (address: string) =>
+  address.split('.').reduce((value, part) => value * 256 + parseInt(part, 10), 0)
+
+function isPrivateIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size)
+  })
+}
+
+// The eight 16-bit groups of an IPv6 address, expanding `::` and a dotted IPv4 tail
+function ipv6Groups(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '')
+  const ipv4Tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/)
+  if (ipv4Tail) {
+    const value = ipv4ToNumber(ipv4Tail[1])
+    text = text.slice(0, -ipv4Tail[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`
+  }
+
+  const [head, tail] = text.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const missing = 8 - headGroups.length - tailGroups.length
+  if (missing < 0 || (tail === undefined && missing !== 0)) return null
+
+  const groups = [...headGroups, ...new Array(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16))
+  return groups.some(isNaN) ? null : groups
+}
+
+const groupsToIPv4 = (high: number, low: number) =>
+  [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.')
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = ipv6Groups(address)
+  if (!groups) return true
+  const [first] = groups
+
+  // IPv4-compatible (incl. `::` and `::1`), IPv4-mapped and NAT64 addresses
+  // reach whatever IPv4 address they embed
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return isPrivateIPv4(groupsToIPv4(groups[6], groups[7]))
+  }
+  if (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(groupsToIPv4(groups[6], groups[7]))
+  }
+  // 6to4
+  if (first === 0x2002) {
+    return isPrivateIPv4(groupsToIPv4(groups[1], groups[2]))
+  }
+
+  return (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xffc0) === 0xfec0 || // site-local
+    (first & 0xff00) === 0xff00 || // multicast
+    (first === 0x2001 && groups[1] === 0x0db8) || // documentation
+    (first === 0x100 && groups.slice(1, 4).every(group => group === 0)) // discard
+}
+
+/**
+ * Whether an IP address is one the server must never be made to load:
+ * anything loopback, private, link-local or otherwise not on the public internet.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) return isPrivateIPv4(address)
+  if (version === 6) return isPrivateIPv6(address)
+  return true
+}
+
+// Resolves a host name, returning why it must not be loaded, if it mustn't
+async function checkHost(hostname: string): Promise<string | null> {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host)) {
+    return isPrivateAddress(host) ? `${host} is a private address` : null
+  }
+
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch {
+    // Left to the browser, which reports it as an unreachable site; should
+    // the name resolve by then, the response address check still applies
+    return null
+  }
+  // Every address counts, since the browser may connect to any of them
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address))
+  return blocked ? `${host} resolves to a private address (${blocked.address})` : null
+}
+
+/**
+ * Why the server must not load `url`, or null if it may: only http(s) URLs
+ * whose host resolves exclusively to public addresses are allowed.
+ * `ALLOW_PRIVATE_URLS=true` skips the address check for local development.
+ */
+export async function checkUrl(url: string, hosts: Map<string, Promise<string | null>> = new Map()): Promise<string | null> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return `Not a valid URL: ${url}`
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `Only http and https URLs are supported: ${url}`
+  }
+  if (ALLOW_PRIVATE_URLS) return null
+
+  // Pages load dozens of resources from the same few hosts; resolve each once
+  let result = hosts.get(parsed.hostname)
+  if (!result) {
+    result = checkHost(parsed.hostname)
+    hosts.set(parsed.hostname, result)
+  }
+  return result
+}
+
+export async function assertPublicUrl(url: string): Promise<void> {
+  const reason = await checkUrl(url)
+  if (reason) throw new ScrapeError('blocked_url', reason)
+}
+
+export type UrlGuard = {
+  // Throws if the page navigated, or was redirected, somewhere it mustn't go
+  check: () => Promise<void>
+}
+
+/**
+ * Checks every request a browser context makes, not just the URL it was asked
+ * to load: requests to private hosts are aborted before they're sent, and
+ * since redirects bypass request interception, the address each response
+ * actually came from is checked too. Aborting a top-level navigation fails
+ * the scrape, as does any response served from a private address (its content
+ * may already be on the page); blocked images, scripts and iframes are just
+ * left out of the page.
+ */
+export async function guardContext(context: BrowserContext): Promise<UrlGuard> {
+  const hosts = new Map<string, Promise<string | null>>()
+  const pending = new Set<Promise<void>>()
+  let blocked: ScrapeError | undefined
+
+  await context.route('**/*', async route => {
+    const request = route.request()
+    const reason = await checkUrl(request.url(), hosts)
+    if (!reason) return route.continue()
+
+    if (request.isNavigationRequest() && !request.frame().parentFrame()) {
+      blocked = blocked || new ScrapeError('blocked_url', reason)
+    }
+    return route.abort('blockedbyclient')
+  })
+
+  if (!ALLOW_PRIVATE_URLS) {
+    context.on('response', response => {
+      const checked = response.serverAddr()
+        .then(server => {
+          if (server && isPrivateAddress(server.ipAddress)) {
+            blocked = blocked || new ScrapeError('blocked_url', `${response.url()} was served from a private address (${server.ipAddress})`)
+          }
+        })
+        .catch(() => {})
+        .finally(() => pending.delete(checked))
+      pending.add(checked)
+    })
+  }
+
+  return {
+    check: async () => {
+      await Promise.all(Array.from(pending))
+      if (blocked) throw blocked
+    }
+  }
+}
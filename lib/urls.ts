@@ -0,0 +1,166 @@
+import { isValidTimezone } from './normalize'
+import type { URLList, VenueOptions } from './types'
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = [/^utm_/, /^fbclid$/, /^gclid$/, /^dclid$/, /^msclkid$/, /^mc_(cid|eid)$/, /^_ga$/, /^_gl$/, /^igshid$/, /^ref_?src$/]
+
+/**
+ * Canonical form of a venue URL, so the same page typed two ways is stored
+ * once: `https://` is assumed when no scheme is given, the host is
+ * lowercased, and the fragment, tracking parameters and any trailing slash
+ * on the path are dropped. Throws for anything that isn't an http(s) URL.
+ */
+export function normalizeUrl(input: string): string {
+  const trimmed = input.trim()
+  if (!trimmed) throw new Error('URL is empty')
+
+  let url: URL
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+  } catch {
+    throw new Error(`Not a valid URL: ${trimmed}`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs are supported: ${trimmed}`)
+  }
+  if (!url.hostname.includes('.') && url.hostname !== 'localhost') {
+    throw new Error(`Not a valid URL: ${trimmed}`)
+  }
+
+  url.hash = ''
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (TRACKING_PARAMS.some(pattern => pattern.test(key.toLowerCase()))) {
+      url.searchParams.delete(key)
+    }
+  }
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, '')
+  }
+
+  // URL already lowercases the host and drops default ports
+  return url.toString().replace(/\?$/, '')
+}
+
+export function isHttpUrl(input: string): boolean {
+  try {
+    const { protocol } = new URL(input)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * `href` resolved against `base`, or undefined unless the result is an
+ * http(s) URL. Links read from scraped pages go through this before they're
+ * stored, since a `javascript:` URL would run in the app when clicked.
+ */
+export function resolveHttpUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(href.trim(), base)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Pasted text: one URL per line (commas and spaces work too); `#` starts a comment
+export function splitUrlText(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/(^|\s)#.*$/, ''))
+    .flatMap(line => line.split(/[\s,]+/))
+    .filter(Boolean)
+}
+
+/**
+ * Normalizes a batch of URLs, separating out the ones that aren't valid and
+ * repeats within the batch itself.
+ */
+export function normalizeUrls(inputs: string[]): { urls: string[]; invalid: string[]; duplicates: string[] } {
+  const urls: string[] = []
+  const invalid: string[] = []
+  const duplicates: string[] = []
+
+  for (const input of inputs) {
+    let url: string
+    try {
+      url = normalizeUrl(input)
+    } catch {
+      invalid.push(input)
+      continue
+    }
+    if (urls.includes(url)) {
+      duplicates.push(url)
+    } else {
+      urls.push(url)
+    }
+  }
+
+  return { urls, invalid, duplicates }
+}
+
+const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined
+const count = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined
+
+/**
+ * One venue's settings with anything of the wrong type, blank or unknown
+ * left out, so a stored profile is always safe to hand to the scraper.
+ */
+export function cleanVenueOptions(venue: unknown): VenueOptions {
+  if (!venue || typeof venue !== 'object') return {}
+  const options = venue as Record<string, unknown>
+
+  const clickSelectors = Array.isArray(options.clickSelectors)
+    ? options.clickSelectors.map(text).filter((selector): selector is string => !!selector)
+    : []
+  const timezone = text(options.timezone)
+  const cleaned: VenueOptions = {
+    maxPages: count(options.maxPages),
+    daysAhead: count(options.daysAhead),
+    waitForSelector: text(options.waitForSelector),
+    clickSelectors: clickSelectors.length > 0 ? clickSelectors : undefined,
+    scroll: options.scroll === false ? false : undefined,
+    listingSelector: text(options.listingSelector),
+    timezone: timezone && isValidTimezone(timezone) ? timezone : undefined,
+    venueName: text(options.venueName),
+    ignoreRobots: options.ignoreRobots === true ? true : undefined
+  }
+  return Object.fromEntries(Object.entries(cleaned).filter(([, value]) => value !== undefined))
+}
+
+// Per-venue settings re-keyed by normalized URL; settings for invalid URLs and empty settings are dropped
+export function normalizeVenueOptions(options?: Record<string, VenueOptions>): Record<string, VenueOptions> | undefined {
+  if (!options || typeof options !== 'object') return undefined
+
+  const normalized: Record<string, VenueOptions> = {}
+  for (const [url, venue] of Object.entries(options)) {
+    const cleaned = cleanVenueOptions(venue)
+    if (Object.keys(cleaned).length === 0) continue
+    try {
+      normalized[normalizeUrl(url)] = cleaned
+    } catch {
+      // Not a URL we'd ever scrape
+    }
+  }
+  return normalized
+}
+
+// What happened to each URL of a bulk add, for the notice under the URL field
+export function describeAddedUrls(
+  result: { added: string[]; duplicates: string[]; invalid: string[]; elsewhere: { url: string; listIds: string[] }[] },
+  lists: Pick<URLList, 'id' | 'name'>[]
+): string {
+  const parts = [`Added ${result.added.length} ${result.added.length === 1 ? 'URL' : 'URLs'}.`]
+  if (result.duplicates.length > 0) {
+    parts.push(`Skipped ${result.duplicates.length} already in the list.`)
+  }
+  if (result.invalid.length > 0) {
+    parts.push(`Not valid URLs: ${result.invalid.join(', ')}.`)
+  }
+  for (const { url, listIds } of result.elsewhere) {
+    const names = listIds.map(id => lists.find(list => list.id === id)?.name).filter(Boolean)
+    if (names.length > 0) parts.push(`${url} is also in ${names.join(', ')}.`)
+  }
+  return parts.join(' ')
+}
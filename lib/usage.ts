@@ -0,0 +1,175 @@
+import { ScrapeError } from './errors'
+import type { Completion, ExtractionProvider } from './providers'
+import type { TokenUsage } from './types'
+
+// US dollars per million tokens
+export type ModelPrice = { input: number; output: number }
+
+// OpenAI's list prices; LLM_PRICES adds models or overrides these
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 }
+}
+
+function pricesFromEnv(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICES) return DEFAULT_PRICES
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.LLM_PRICES) }
+  } catch {
+    console.error('LLM_PRICES is not valid JSON; using the default prices')
+    return DEFAULT_PRICES
+  }
+}
+
+const PRICES = pricesFromEnv()
+
+// Models already reported as missing from the price table
+const unpricedModels = new Set<string>()
+
+export type BudgetLimits = {
+  // US dollars a single run may spend on the model
+  perRunUsd?: number
+  // US dollars all runs together may spend in a calendar month (UTC)
+  monthlyUsd?: number
+  // Once a limit is reached: fail the remaining model calls, or keep going without screenshots
+  action: 'stop' | 'text-only'
+}
+
+const dollars = (value: string | undefined) => (Number(value) > 0 ? Number(value) : undefined)
+
+export const budgetLimitsFromEnv = (): BudgetLimits => ({
+  perRunUsd: dollars(process.env.LLM_BUDGET_PER_RUN_USD),
+  monthlyUsd: dollars(process.env.LLM_BUDGET_MONTHLY_USD),
+  action: process.env.LLM_BUDGET_ACTION === 'text-only' ? 'text-only' : 'stop'
+})
+
+export const emptyUsage = (): TokenUsage => ({ requests: 0, promptTokens: 0, completionTokens: 0, imageTokens: 0, costUsd: 0 })
+
+export const addUsage = (total: TokenUsage, usage: TokenUsage): TokenUsage => ({
+  requests: total.requests + usage.requests,
+  promptTokens: total.promptTokens + usage.promptTokens,
+  completionTokens: total.completionTokens + usage.completionTokens,
+  imageTokens: total.imageTokens + usage.imageTokens,
+  costUsd: total.costUsd + usage.costUsd
+})
+
+// Dated snapshots (gpt-4o-2024-08-06) behave like their model, so the longest matching prefix wins
+function forModel<T>(table: Record<string, T>, model: string): T | undefined {
+  if (table[model]) return table[model]
+  const match = Object.keys(table)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? table[match] : undefined
+}
+
+export const priceFor = (model: string): ModelPrice | undefined => forModel(PRICES, model)
+
+// Tokens per high-detail image (`base`) and per 512px tile, from OpenAI's vision pricing.
+// gpt-4o-mini counts far more tokens per image at its lower price per token
+const IMAGE_TOKEN_RATES: Record<string, { base: number; tile: number }> = {
+  'gpt-4o-mini': { base: 2833, tile: 5667 },
+  'gpt-4o': { base: 85, tile: 170 },
+  'gpt-4-turbo': { base: 85, tile: 170 }
+}
+
+// Width and height from a JPEG's start-of-frame segment
+function jpegSize(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2
+  while (offset + 9 < data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1]
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) }
+    }
+    offset += 2 + data.readUInt16BE(offset + 2)
+  }
+  return undefined
+}
+
+/**
+ * Tokens a high-detail screenshot adds to the prompt, by OpenAI's published
+ * formula: the image is scaled to fit 2048px, then to 768px on its short
+ * side, and costs a base amount plus more for each 512px tile, at the
+ * model's rates. Models without known rates are estimated at gpt-4o's.
+ */
+export function estimateImageTokens(base64Jpeg: string, model: string): number {
+  const rates = forModel(IMAGE_TOKEN_RATES, model) || IMAGE_TOKEN_RATES['gpt-4o']
+  let { width, height } = jpegSize(Buffer.from(base64Jpeg, 'base64')) || { width: 1920, height: 1080 }
+  const fit = Math.min(1, 2048 / Math.max(width, height))
+  width *= fit
+  height *= fit
+  const shrink = Math.min(1, 768 / Math.min(width, height))
+  width *= shrink
+  height *= shrink
+  return rates.base + rates.tile * Math.ceil(width / 512) * Math.ceil(height / 512)
+}
+
+export function usageOf(model: string, usage: NonNullable<Completion['usage']>, screenshot?: string): TokenUsage {
+  const price = priceFor(model)
+  if (!price && !unpricedModels.has(model)) {
+    unpricedModels.add(model)
+    console.warn(`No price is known for ${model}, so its calls are counted as free; add it to LLM_PRICES`)
+  }
+  return {
+    requests: 1,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    imageTokens: screenshot ? Math.min(estimateImageTokens(screenshot, model), usage.promptTokens) : 0,
+    costUsd: price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1e6 : 0
+  }
+}
+
+/**
+ * Passes requests through to `provider`, reporting the tokens each one used.
+ * Requests to servers that don't report usage still count, with no tokens.
+ */
+export function meterProvider(provider: ExtractionProvider, record: (usage: TokenUsage) => void): ExtractionProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      const completion = await provider.complete(request)
+      const screenshot = provider.supportsVision ? request.screenshot : undefined
+      record(completion.usage ? usageOf(provider.model, completion.usage, screenshot) : { ...emptyUsage(), requests: 1 })
+      return completion
+    }
+  }
+}
+
+/**
+ * Passes requests through to `provider` until `overBudget` gives a reason to
+ * stop, then fails them with that reason instead.
+ */
+export function limitProvider(provider: ExtractionProvider, overBudget: () => Promise<string | null>): ExtractionProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      const reason = await overBudget()
+      if (reason) throw new ScrapeError('budget_exceeded', reason)
+      return provider.complete(request)
+    }
+  }
+}
+
+/**
+ * Why no more should be spent, or null while spending is within the limits.
+ * `monthCostUsd` includes the current run. A model missing from the price
+ * table always counts as $0, so any budget refuses it outright.
+ */
+export function budgetReached(limits: BudgetLimits, model: string, runCostUsd: number, monthCostUsd: number): string | null {
+  if ((limits.perRunUsd !== undefined || limits.monthlyUsd !== undefined) && !priceFor(model)) {
+    return `No price is known for ${model}, so the model budget can't be enforced; add it to LLM_PRICES`
+  }
+  if (limits.perRunUsd !== undefined && runCostUsd >= limits.perRunUsd) {
+    return `This run reached its model budget of $${limits.perRunUsd.toFixed(2)}`
+  }
+  if (limits.monthlyUsd !== undefined && monthCostUsd >= limits.monthlyUsd) {
+    return `The monthly model budget of $${limits.monthlyUsd.toFixed(2)} has been reached`
+  }
+  return null
+}
+
+// Key of the month usage is totalled under, e.g. 2024-03
+export const usageMonth = (date = new Date()) => date.toISOString().slice(0, 7)
@@ -0,0 +1,100 @@
+import { diceSimilarity, foldText, isSameArtist, isSameEvent } from './dedupe'
+import type { Event, WatchMatch, WatchedArtist } from './types'
+
+// Close enough to catch typos such as "Phoebe Bridger" for "Phoebe Bridgers"
+const FUZZY_THRESHOLD = 0.85
+
+// Single letters are ignored; two-letter names such as "U2" are real
+const MIN_NAME_LENGTH = 2
+
+// Shorter names only match as whole words, since a near match would catch
+// ordinary words ("Low" in "lows", "Muse" in "music")
+const FUZZY_MIN_LENGTH = 5
+
+/**
+ * Whether `artist` is mentioned in `text`, ignoring case, accents and
+ * punctuation. The name must appear as whole words; for names of at least
+ * FUZZY_MIN_LENGTH characters, any run of as many words that is nearly the
+ * same (Dice similarity) counts too.
+ */
+export function mentionsArtist(text: string, artist: string): boolean {
+  const name = foldText(artist)
+  const folded = foldText(text)
+  if (name.length < MIN_NAME_LENGTH || !folded) return false
+  if (` ${folded} `.includes(` ${name} `)) return true
+  if (name.length < FUZZY_MIN_LENGTH) return false
+
+  const nameWords = name.split(' ')
+  const words = folded.split(' ')
+  for (let i = 0; i + nameWords.length <= words.length; i++) {
+    if (diceSimilarity(words.slice(i, i + nameWords.length).join(' '), name) >= FUZZY_THRESHOLD) return true
+  }
+  return false
+}
+
+export function matchingArtists(event: Event, watchlist: WatchedArtist[]): WatchedArtist[] {
+  return watchlist.filter(artist =>
+    mentionsArtist(event.eventName, artist.name) ||
+    // The whole-title comparison is fuzzy too, so it gets the same length rule
+    (foldText(artist.name).length >= FUZZY_MIN_LENGTH && isSameArtist(event.eventName, artist.name)) ||
+    (!!event.description && mentionsArtist(event.description, artist.name))
+  )
+}
+
+export function findWatchMatches(events: Event[], watchlist: WatchedArtist[]): WatchMatch[] {
+  return events.flatMap(event =>
+    matchingArtists(event, watchlist).map(artist => ({ artistId: artist.id, artist: artist.name, event }))
+  )
+}
+
+/**
+ * Matches in `events` that weren't in `previousEvents`: a watched artist
+ * newly announced at a venue, or moved to a new date.
+ */
+export function newWatchMatches(events: Event[], previousEvents: Event[], watchlist: WatchedArtist[]): WatchMatch[] {
+  const previous = findWatchMatches(previousEvents, watchlist)
+  return findWatchMatches(events, watchlist).filter(match =>
+    !previous.some(earlier => earlier.artistId === match.artistId && isSameEvent(earlier.event, match.event))
+  )
+}
+
+/**
+ * Splits `text` into segments, marking the exact (folded) mentions of any of
+ * `artists` so they can be highlighted. Fuzzy-only matches aren't marked.
+ */
+export function highlightArtists(text: string, artists: string[]): { text: string; match: boolean }[] {
+  // Fold character by character, remembering where each folded character came from
+  let folded = ''
+  const origin: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const char = foldText(text[i]) || ' '
+    if (char === ' ' && folded.endsWith(' ')) continue
+    for (const c of char) {
+      folded += c
+      origin.push(i)
+    }
+  }
+
+  const marked = new Array<boolean>(text.length).fill(false)
+  for (const artist of artists) {
+    const name = foldText(artist)
+    if (name.length < MIN_NAME_LENGTH) continue
+    for (let index = folded.indexOf(name); index !== -1; index = folded.indexOf(name, index + 1)) {
+      const before = folded[index - 1]
+      const after = folded[index + name.length]
+      if ((before !== undefined && before !== ' ') || (after !== undefined && after !== ' ')) continue
+      for (let i = origin[index]; i <= origin[index + name.length - 1]; i++) marked[i] = true
+    }
+  }
+
+  const segments: { text: string; match: boolean }[] = []
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1]
+    if (last && last.match === marked[i]) {
+      last.text += text[i]
+    } else {
+      segments.push({ text: text[i], match: marked[i] })
+    }
+  }
+  return segments
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, authConfigFromEnv, calendarFeedKey, isValidBearer, safeEqual, verifySessionToken } from '@/lib/auth'
+
+// Reachable without logging in
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/logout', '/api/config']
+
+/**
+ * Requires a login for every page and API route when `APP_PASSWORD` or
+ * `APP_USERS` is set. Besides the session cookie, API routes accept the
+ * shared password as a bearer token, a list's calendar feed its `?key=`, and the
+ * schedule route its own `CRON_SECRET` (checked by the route itself).
+ */
+export async function middleware(request: NextRequest) {
+  const config = authConfigFromEnv()
+  const { pathname, searchParams } = request.nextUrl
+  if (!config || PUBLIC_PATHS.includes(pathname)) return NextResponse.next()
+
+  if (await verifySessionToken(config, request.cookies.get(SESSION_COOKIE)?.value)) {
+    return NextResponse.next()
+  }
+  if (pathname.startsWith('/api/')) {
+    if (isValidBearer(config, request.headers.get('authorization'))) return NextResponse.next()
+    const feedList = searchParams.get('list')
+    if (pathname === '/api/calendar' && feedList && safeEqual(searchParams.get('key') || '', await calendarFeedKey(config, feedList))) {
+      return NextResponse.next()
+    }
+    if (pathname === '/api/schedule' && process.env.CRON_SECRET) return NextResponse.next()
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const login = new URL('/login', request.url)
+  login.searchParams.set('next', pathname + request.nextUrl.search)
+  return NextResponse.redirect(login)
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)']
+}
@@ -1,7 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['playwright']
+    serverComponentsExternalPackages: ['playwright'],
+    // Starts the scrape scheduler (instrumentation.ts)
+    instrumentationHook: true
   }
 }
 
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { findObjects, stringAt, toAdapterEvent, valueAt } from '../lib/adapters/helpers'
+
+const nextData = {
+  props: {
+    pageProps: {
+      events: [
+        { name: 'Horsegirl', dates: { event_start_date: '2025-03-01T20:00:00-06:00' }, venues: [{ name: 'Empty Bottle' }] },
+        { name: 'No date yet', dates: {} }
+      ]
+    }
+  }
+}
+
+describe('valueAt', () => {
+  it('follows keys and array indexes', () => {
+    const [event] = findObjects(nextData, node => stringAt(node, 'dates', 'event_start_date') !== undefined)
+    assert.equal(stringAt(event, 'venues', 0, 'name'), 'Empty Bottle')
+    assert.equal(valueAt(event, 'venues', 1, 'name'), undefined)
+  })
+
+  it('stops at values that are missing or of the wrong type', () => {
+    assert.equal(valueAt(null, 'name'), undefined)
+    assert.equal(valueAt({ name: 'x' }, 'name', 'text'), undefined)
+    assert.equal(stringAt({ amount: 1500 }, 'amount'), undefined)
+  })
+})
+
+describe('toAdapterEvent', () => {
+  it('needs a name and a date', () => {
+    assert.equal(toAdapterEvent({ eventName: 'Horsegirl' }, 'https://example.com/', 'DICE'), null)
+    assert.deepEqual(
+      toAdapterEvent({ eventName: ' Horsegirl ', startsAt: '2025-03-01T20:00:00-06:00', url: '/e/1' }, 'https://www.example.com/shows', 'DICE'),
+      {
+        venue: 'example.com',
+        eventName: 'Horsegirl',
+        date: '2025-03-01',
+        time: 'TBA',
+        price: undefined,
+        description: undefined,
+        url: 'https://www.example.com/e/1',
+        source: 'adapter',
+        adapter: 'DICE',
+        startsAt: '2025-03-01T20:00:00-06:00',
+        soldOut: undefined,
+        cancelled: undefined
+      }
+    )
+  })
+
+  it('keeps the listing page in place of links that are not http(s)', () => {
+    const fields = { eventName: 'Horsegirl', date: 'Mar 1' }
+    assert.equal(toAdapterEvent({ ...fields, url: 'javascript:alert(1)' }, 'https://example.com/shows', 'DICE')?.url, 'https://example.com/shows')
+    assert.equal(toAdapterEvent({ ...fields, url: ' JavaScript:alert(1)' }, 'https://example.com/shows', 'DICE')?.url, 'https://example.com/shows')
+    assert.equal(toAdapterEvent({ ...fields, url: 'http://[bad' }, 'https://example.com/shows', 'DICE')?.url, 'https://example.com/shows')
+  })
+})
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { chunkText, pairChunksWithTiles } from '../lib/chunking'
+
+describe('chunkText', () => {
+  it('breaks between sections to stay under the budget', () => {
+    const sections = ['March 1\nThe Beths', 'March 2\nWednesday', 'March 3\nHorsegirl']
+    const chunks = chunkText(sections.join('\n\n'), 5)
+    assert.deepEqual(chunks, sections)
+  })
+
+  it('keeps short text in one chunk', () => {
+    assert.deepEqual(chunkText('March 1\nThe Beths', 100), ['March 1\nThe Beths'])
+    assert.deepEqual(chunkText('', 100), [''])
+  })
+})
+
+describe('pairChunksWithTiles', () => {
+  it('reuses a tile for the chunks beside it', () => {
+    assert.deepEqual(pairChunksWithTiles(['a', 'b', 'c', 'd'], ['top', 'bottom']), [
+      { content: 'a', screenshot: 'top' },
+      { content: 'b', screenshot: 'top' },
+      { content: 'c', screenshot: 'bottom' },
+      { content: 'd', screenshot: 'bottom' }
+    ])
+  })
+
+  it('sends each chunk once and extra tiles without text', () => {
+    assert.deepEqual(pairChunksWithTiles(['a'], ['1', '2', '3']), [
+      { content: 'a', screenshot: '1' },
+      { content: '', screenshot: '2' },
+      { content: '', screenshot: '3' }
+    ])
+    assert.deepEqual(pairChunksWithTiles(['a', 'b'], ['1', '2', '3', '4']), [
+      { content: 'a', screenshot: '1' },
+      { content: '', screenshot: '2' },
+      { content: 'b', screenshot: '3' },
+      { content: '', screenshot: '4' }
+    ])
+  })
+
+  it('pairs chunks with no screenshot for text-only models', () => {
+    assert.deepEqual(pairChunksWithTiles(['a', 'b'], []), [
+      { content: 'a', screenshot: '' },
+      { content: 'b', screenshot: '' }
+    ])
+  })
+})
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { isUpcoming } from '../lib/events'
+import { toICalendar } from '../lib/ical'
+import type { Event } from '../lib/types'
+
+const event = (fields: Partial<Event>): Event => ({
+  venue: 'The Blue Room',
+  eventName: 'Night Owls',
+  date: 'Oct 19',
+  time: '8pm',
+  url: 'https://example.com/events',
+  source: 'structured',
+  timezone: 'America/Chicago',
+  ...fields
+})
+
+describe('isUpcoming', () => {
+  it("keeps tonight's show when its end is only a date", () => {
+    const tonight = event({ startsAt: '2026-10-19T20:00:00-05:00', endsAt: '2026-10-19' })
+    assert.equal(isUpcoming(tonight, new Date('2026-10-19T15:00:00Z')), true)
+    assert.equal(isUpcoming(tonight, new Date('2026-10-20T06:00:00Z')), false)
+  })
+
+  it('drops a show once its end time has passed', () => {
+    const show = event({ startsAt: '2026-10-19T20:00:00-05:00', endsAt: '2026-10-19T23:00:00-05:00' })
+    assert.equal(isUpcoming(show, new Date('2026-10-20T03:59:00Z')), true)
+    assert.equal(isUpcoming(show, new Date('2026-10-20T04:01:00Z')), false)
+  })
+
+  it('keeps date-only shows for the whole day and undated ones always', () => {
+    assert.equal(isUpcoming(event({ startsAt: '2026-10-19' }), new Date('2026-10-20T04:00:00Z')), true)
+    assert.equal(isUpcoming(event({}), new Date('2030-01-01T00:00:00Z')), true)
+  })
+})
+
+describe('toICalendar', () => {
+  const lines = (events: Event[]) => toICalendar(events, { now: new Date('2026-10-01T00:00:00Z') }).split('\r\n')
+
+  it('ends a timed show with a date-only end on that day, after it starts', () => {
+    const output = lines([event({ startsAt: '2026-10-19T20:00:00-05:00', endsAt: '2026-10-19' })])
+    assert.ok(output.includes('DTSTART:20261020T010000Z'))
+    assert.ok(output.includes('DTEND:20261020T045900Z'))
+  })
+
+  it('gives shows with a missing or earlier end the default length', () => {
+    const output = lines([
+      event({ startsAt: '2026-10-19T20:00:00-05:00' }),
+      event({ eventName: 'Early Birds', startsAt: '2026-10-20T20:00:00-05:00', endsAt: '2026-10-20T19:00:00-05:00' })
+    ])
+    assert.deepEqual(output.filter(line => line.startsWith('DTEND')), ['DTEND:20261020T040000Z', 'DTEND:20261021T040000Z'])
+  })
+})
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readdir, rm, utimes } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+import { getCachedExtraction, pruneCache, setCachedExtraction } from '../lib/extraction-cache'
+
+describe('extraction cache', () => {
+  let dataDir: string
+
+  before(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'extraction-cache-test-'))
+    process.env.DATA_DIR = dataDir
+  })
+
+  after(async () => {
+    delete process.env.DATA_DIR
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('keeps only the entry files, without temp files', async () => {
+    await Promise.all([setCachedExtraction('page', []), setCachedExtraction('page', [])])
+    assert.deepEqual(await readdir(path.join(dataDir, 'extraction-cache')), ['page.json'])
+    assert.deepEqual(await getCachedExtraction('page'), [])
+  })
+
+  it('deletes entries past the maximum age', async () => {
+    await setCachedExtraction('old', [])
+    await setCachedExtraction('new', [])
+    const eightDaysAgo = new Date(Date.now() - 8 * 86400000)
+    await utimes(path.join(dataDir, 'extraction-cache', 'old.json'), eightDaysAgo, eightDaysAgo)
+
+    await pruneCache(Date.now() + 2 * 3600000)
+    assert.deepEqual((await readdir(path.join(dataDir, 'extraction-cache'))).sort(), ['new.json', 'page.json'])
+  })
+})
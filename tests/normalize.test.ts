@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { calendarDay, normalizeEvent, parseDateText, parsePriceText, parseTimeText, zonedTimeToUtcMs } from '../lib/normalize'
+import type { Event } from '../lib/types'
+
+// Friday, December 20, 2024: close enough to new year for year-less dates to roll over
+const NOW = new Date('2024-12-20T18:00:00Z')
+const today = calendarDay(NOW, 'UTC')
+
+const event = (fields: Partial<Event>): Event => ({
+  venue: 'The Blue Room',
+  eventName: 'Night Owls',
+  date: '',
+  time: '',
+  url: 'https://example.com/events',
+  source: 'llm',
+  ...fields
+})
+
+const utc = (ms: number) => new Date(ms).toISOString()
+
+describe('parseDateText', () => {
+  it('reads the common written forms', () => {
+    assert.deepEqual(parseDateText('March 15, 2025', today), { year: 2025, month: 3, day: 15 })
+    assert.deepEqual(parseDateText('Sat, Jan. 4th', today), { year: 2025, month: 1, day: 4 })
+    assert.deepEqual(parseDateText('15th of March', today), { year: 2025, month: 3, day: 15 })
+    assert.deepEqual(parseDateText('2025-02-03', today), { year: 2025, month: 2, day: 3 })
+    assert.deepEqual(parseDateText('Fri 3/14', today), { year: 2025, month: 3, day: 14 })
+    assert.deepEqual(parseDateText('3/14/26', today), { year: 2026, month: 3, day: 14 })
+  })
+
+  it('rolls year-less dates over into next year', () => {
+    assert.deepEqual(parseDateText('Jan 2', today), { year: 2025, month: 1, day: 2 })
+    assert.deepEqual(parseDateText('Nov 1', today), { year: 2025, month: 11, day: 1 })
+  })
+
+  it('keeps dates from the last few weeks in the current year', () => {
+    assert.deepEqual(parseDateText('Dec 1', today), { year: 2024, month: 12, day: 1 })
+    assert.deepEqual(parseDateText('Dec 31', today), { year: 2024, month: 12, day: 31 })
+  })
+
+  it('resolves relative days against today', () => {
+    assert.deepEqual(parseDateText('Tonight!', today), { year: 2024, month: 12, day: 20 })
+    assert.deepEqual(parseDateText('Tomorrow', today), { year: 2024, month: 12, day: 21 })
+    assert.deepEqual(parseDateText('This Friday', today), { year: 2024, month: 12, day: 20 })
+    assert.deepEqual(parseDateText('Tuesday', today), { year: 2024, month: 12, day: 24 })
+  })
+
+  it('crosses the year end for relative days', () => {
+    const newYearsEve = calendarDay(new Date('2024-12-31T12:00:00Z'), 'UTC')
+    assert.deepEqual(parseDateText('tomorrow', newYearsEve), { year: 2025, month: 1, day: 1 })
+  })
+
+  it('returns null for TBA and impossible dates', () => {
+    assert.equal(parseDateText('TBA', today), null)
+    assert.equal(parseDateText('Date to be announced', today), null)
+    assert.equal(parseDateText('Feb 30', today), null)
+    assert.equal(parseDateText('2025-13-01', today), null)
+  })
+})
+
+describe('parseTimeText', () => {
+  it('separates doors from the show', () => {
+    assert.deepEqual(parseTimeText('Doors 7pm / Show 8pm'), {
+      doors: { hours: 19, minutes: 0 },
+      start: { hours: 20, minutes: 0 }
+    })
+  })
+
+  it('shares a trailing am/pm across a range', () => {
+    assert.deepEqual(parseTimeText('8:00 - 11:00 PM'), {
+      start: { hours: 20, minutes: 0 },
+      end: { hours: 23, minutes: 0 }
+    })
+    assert.deepEqual(parseTimeText('9pm to 2am'), {
+      start: { hours: 21, minutes: 0 },
+      end: { hours: 2, minutes: 0 }
+    })
+  })
+
+  it('reads bare times as evening unless written as 24-hour time', () => {
+    assert.deepEqual(parseTimeText('8:30'), { start: { hours: 20, minutes: 30 } })
+    assert.deepEqual(parseTimeText('08:30'), { start: { hours: 8, minutes: 30 } })
+    assert.deepEqual(parseTimeText('20:00'), { start: { hours: 20, minutes: 0 } })
+  })
+
+  it('reads noon and midnight', () => {
+    assert.deepEqual(parseTimeText('Noon'), { start: { hours: 12, minutes: 0 } })
+    assert.deepEqual(parseTimeText('midnight'), { start: { hours: 0, minutes: 0 } })
+  })
+
+  it('uses the doors time when no other time is listed', () => {
+    assert.deepEqual(parseTimeText('Doors: 7:30pm'), {
+      doors: { hours: 19, minutes: 30 },
+      start: { hours: 19, minutes: 30 }
+    })
+  })
+
+  it('finds nothing in TBA', () => {
+    assert.deepEqual(parseTimeText('TBA'), {})
+  })
+})
+
+describe('parsePriceText', () => {
+  it('reads advance and door prices', () => {
+    assert.deepEqual(parsePriceText('$15 adv / $20 dos'), { priceMin: 15, priceMax: 20, currency: 'USD', isFree: false })
+    assert.deepEqual(parsePriceText('€12.50'), { priceMin: 12.5, priceMax: 12.5, currency: 'EUR', isFree: false })
+  })
+
+  it('reads both ends of a range marked once', () => {
+    assert.deepEqual(parsePriceText('$15-20'), { priceMin: 15, priceMax: 20, currency: 'USD', isFree: false })
+    assert.deepEqual(parsePriceText('10 - 12 GBP'), { priceMin: 10, priceMax: 12, currency: 'GBP', isFree: false })
+  })
+
+  it('ignores ages and times next to the price', () => {
+    assert.deepEqual(parsePriceText('$15 · 18+'), { priceMin: 15, priceMax: 15, currency: 'USD', isFree: false })
+    assert.deepEqual(parsePriceText('Doors 7pm $10'), { priceMin: 10, priceMax: 10, currency: 'USD', isFree: false })
+    assert.deepEqual(parsePriceText('21+ show, 2 drink minimum'), {})
+  })
+
+  it('reads a bare amount in the default currency', () => {
+    assert.deepEqual(parsePriceText('25', 'CAD'), { priceMin: 25, priceMax: 25, currency: 'CAD', isFree: false })
+  })
+
+  it('tells thousands separators from decimal commas', () => {
+    assert.deepEqual(parsePriceText('$1,200 VIP'), { priceMin: 1200, priceMax: 1200, currency: 'USD', isFree: false })
+    assert.deepEqual(parsePriceText('€12,50'), { priceMin: 12.5, priceMax: 12.5, currency: 'EUR', isFree: false })
+    assert.deepEqual(parsePriceText('1,500'), { priceMin: 1500, priceMax: 1500, currency: 'USD', isFree: false })
+  })
+
+  it('recognizes free shows', () => {
+    assert.deepEqual(parsePriceText('Free w/ RSVP'), { priceMin: 0, priceMax: 0, isFree: true })
+    assert.deepEqual(parsePriceText('Free before 10pm, $5 after'), { priceMin: 5, priceMax: 5, currency: 'USD', isFree: false })
+    assert.deepEqual(parsePriceText('Free - $10 donation'), { priceMin: 0, priceMax: 10, currency: 'USD', isFree: true })
+  })
+})
+
+describe('zonedTimeToUtcMs', () => {
+  it('applies standard and daylight offsets', () => {
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2025, month: 1, day: 15 }, { hours: 20, minutes: 0 }, 'America/New_York')), '2025-01-16T01:00:00.000Z')
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2024, month: 7, day: 1 }, { hours: 20, minutes: 0 }, 'America/New_York')), '2024-07-02T00:00:00.000Z')
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2024, month: 7, day: 1 }, { hours: 20, minutes: 0 }, 'Australia/Sydney')), '2024-07-01T10:00:00.000Z')
+  })
+
+  it('moves times in a spring-forward gap past the gap', () => {
+    // 2:30 doesn't exist on these days; it's read as 3:30 daylight time
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2024, month: 3, day: 10 }, { hours: 2, minutes: 30 }, 'America/New_York')), '2024-03-10T07:30:00.000Z')
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2024, month: 3, day: 31 }, { hours: 1, minutes: 30 }, 'Europe/London')), '2024-03-31T01:30:00.000Z')
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2024, month: 10, day: 6 }, { hours: 2, minutes: 30 }, 'Australia/Sydney')), '2024-10-05T16:30:00.000Z')
+  })
+
+  it('picks the first of two times repeated when clocks go back', () => {
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2024, month: 11, day: 3 }, { hours: 1, minutes: 30 }, 'America/New_York')), '2024-11-03T05:30:00.000Z')
+    assert.equal(utc(zonedTimeToUtcMs({ year: 2024, month: 10, day: 27 }, { hours: 1, minutes: 30 }, 'Europe/London')), '2024-10-27T00:30:00.000Z')
+  })
+})
+
+describe('normalizeEvent', () => {
+  const options = { timezone: 'America/Chicago', now: NOW }
+
+  it('fills in timestamps and prices from the free text', () => {
+    const normalized = normalizeEvent(event({ date: 'Sat Jan 4', time: 'Doors 7pm / Show 8pm', price: '$15 adv / $20 dos' }), options)
+    assert.equal(normalized.startsAt, '2025-01-04T20:00:00-06:00')
+    assert.equal(normalized.doorsAt, '2025-01-04T19:00:00-06:00')
+    assert.equal(normalized.timezone, 'America/Chicago')
+    assert.equal(normalized.priceMin, 15)
+    assert.equal(normalized.priceMax, 20)
+    assert.equal(normalized.currency, 'USD')
+    assert.equal(normalized.isFree, false)
+  })
+
+  it('keeps a date-only start for tonight with the time TBA', () => {
+    const normalized = normalizeEvent(event({ date: 'Tonight', time: 'TBA' }), options)
+    assert.equal(normalized.startsAt, '2024-12-20')
+    assert.equal(normalized.doorsAt, undefined)
+  })
+
+  it('leaves the start empty when the date is TBA', () => {
+    const normalized = normalizeEvent(event({ date: 'TBA', time: '8pm' }), options)
+    assert.equal(normalized.startsAt, undefined)
+  })
+
+  it('reads a time written into the date field', () => {
+    const normalized = normalizeEvent(event({ date: 'Mar 15 @ 8pm', time: '' }), options)
+    assert.equal(normalized.startsAt, '2025-03-15T20:00:00-05:00')
+  })
+
+  it('ends shows that run past midnight on the next day', () => {
+    const normalized = normalizeEvent(event({ date: 'Dec 31', time: '9pm - 2am' }), options)
+    assert.equal(normalized.startsAt, '2024-12-31T21:00:00-06:00')
+    assert.equal(normalized.endsAt, '2025-01-01T02:00:00-06:00')
+  })
+
+  it("re-expresses the extractor's timestamps in the venue's timezone", () => {
+    const normalized = normalizeEvent(event({ date: 'Jan 4', time: '8pm', startsAt: '2025-01-05T02:00:00Z' }), options)
+    assert.equal(normalized.startsAt, '2025-01-04T20:00:00-06:00')
+  })
+
+  it('flags free, sold out and cancelled shows', () => {
+    assert.equal(normalizeEvent(event({ date: 'Jan 4', price: 'Free' }), options).isFree, true)
+    assert.equal(normalizeEvent(event({ date: 'Jan 4', eventName: 'Night Owls (SOLD OUT)' }), options).soldOut, true)
+    assert.equal(normalizeEvent(event({ date: 'Jan 4', description: 'This show has been cancelled' }), options).cancelled, true)
+  })
+})
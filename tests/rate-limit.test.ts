@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { clientAddress, createFailureLimiter, createRateLimiter } from '../lib/rate-limit'
+
+describe('createRateLimiter', () => {
+  it('allows `limit` calls per window', () => {
+    const limit = createRateLimiter(2, 60000)
+    assert.equal(limit('a', 0).allowed, true)
+    assert.equal(limit('a', 1000).allowed, true)
+    assert.deepEqual(limit('a', 2000), { allowed: false, retryAfterSeconds: 58 })
+    assert.equal(limit('b', 2000).allowed, true)
+    assert.equal(limit('a', 60001).allowed, true)
+  })
+})
+
+describe('createFailureLimiter', () => {
+  it('only counts failures', () => {
+    const limiter = createFailureLimiter(2, 60000)
+    for (let i = 0; i < 5; i++) assert.equal(limiter.check('a', i).allowed, true)
+    limiter.fail('a', 0)
+    assert.equal(limiter.check('a', 10).allowed, true)
+    limiter.fail('a', 1000)
+    assert.deepEqual(limiter.check('a', 2000), { allowed: false, retryAfterSeconds: 58 })
+    assert.equal(limiter.check('b', 2000).allowed, true)
+  })
+
+  it('lets a client back in once its failures leave the window', () => {
+    const limiter = createFailureLimiter(1, 60000)
+    limiter.fail('a', 0)
+    assert.equal(limiter.check('a', 59999).allowed, false)
+    assert.equal(limiter.check('a', 60000).allowed, true)
+  })
+})
+
+describe('clientAddress', () => {
+  it('ignores X-Forwarded-For unless proxies are trusted', () => {
+    const request = new Request('https://example.com', { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } })
+    assert.equal(clientAddress(request), 'unknown')
+    assert.equal(clientAddress(Object.assign(request, { ip: '198.51.100.2' })), '198.51.100.2')
+  })
+})
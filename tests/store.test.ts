@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+import { addUrls, createList } from '../lib/store'
+import { describeAddedUrls } from '../lib/urls'
+
+describe('addUrls', () => {
+  let dataDir: string
+
+  before(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'store-test-'))
+    process.env.DATA_DIR = dataDir
+  })
+
+  after(async () => {
+    delete process.env.DATA_DIR
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('names the other lists that already have an added URL', async () => {
+    const chicago = await createList({ name: 'Chicago', urls: ['https://thaliahall.com/events'] })
+    const weekend = await createList({ name: 'Weekend' })
+
+    const result = await addUrls(weekend.id, ['https://thaliahall.com/events', 'https://emptybottle.com'])
+    assert.ok(result)
+    assert.deepEqual(result.elsewhere, [{ url: 'https://thaliahall.com/events', listIds: [chicago.id] }])
+    assert.equal(
+      describeAddedUrls({ ...result, invalid: [] }, [chicago, result.list]),
+      'Added 2 URLs. https://thaliahall.com/events is also in Chicago.'
+    )
+  })
+})
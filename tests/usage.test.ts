@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { ScrapeError } from '../lib/errors'
+import { extractEventsWithGPT } from '../lib/extract'
+import type { ExtractionProvider } from '../lib/providers'
+import { addUsage, budgetReached, emptyUsage, estimateImageTokens, limitProvider, meterProvider, priceFor } from '../lib/usage'
+
+// Answers with each response in turn, reporting a million prompt tokens per call
+function scriptedProvider(responses: string[]): ExtractionProvider & { calls: number } {
+  const provider = {
+    name: 'openai',
+    model: 'gpt-4o-mini',
+    supportsVision: false,
+    calls: 0,
+    async complete() {
+      return { content: responses[provider.calls++], usage: { promptTokens: 1000000, completionTokens: 0 } }
+    }
+  }
+  return provider
+}
+
+describe('priceFor', () => {
+  it('prices dated snapshots like their model', () => {
+    assert.deepEqual(priceFor('gpt-4o-2024-08-06'), priceFor('gpt-4o'))
+    assert.deepEqual(priceFor('gpt-4o-mini-2024-07-18'), priceFor('gpt-4o-mini'))
+    assert.equal(priceFor('llama3.1'), undefined)
+  })
+})
+
+describe('estimateImageTokens', () => {
+  // Unreadable image data is taken for a 1920x1080 screenshot: 6 tiles once scaled down
+  it("uses the model's rates", () => {
+    assert.equal(estimateImageTokens('', 'gpt-4o-2024-08-06'), 85 + 6 * 170)
+    assert.equal(estimateImageTokens('', 'gpt-4o-mini'), 2833 + 6 * 5667)
+    assert.equal(estimateImageTokens('', 'llava'), estimateImageTokens('', 'gpt-4o'))
+  })
+})
+
+describe('budgetReached', () => {
+  it('stops at the run and monthly limits', () => {
+    const limits = { perRunUsd: 1, monthlyUsd: 10, action: 'stop' as const }
+    assert.equal(budgetReached(limits, 'gpt-4o-mini', 0.5, 5), null)
+    assert.match(budgetReached(limits, 'gpt-4o-mini', 1, 5) || '', /This run/)
+    assert.match(budgetReached(limits, 'gpt-4o-mini', 0.5, 10) || '', /monthly/)
+  })
+
+  it('refuses a budget for a model without a price', () => {
+    assert.match(budgetReached({ perRunUsd: 1, action: 'stop' }, 'llama3.1', 0, 0) || '', /LLM_PRICES/)
+    assert.equal(budgetReached({ action: 'stop' }, 'llama3.1', 0, 0), null)
+  })
+})
+
+describe('limitProvider', () => {
+  it('holds repair calls to the budget', async () => {
+    const inner = scriptedProvider(['not json', '{"events": []}'])
+    let spent = emptyUsage()
+    const metered = meterProvider(inner, call => { spent = addUsage(spent, call) })
+    // gpt-4o-mini costs $0.15 per million prompt tokens, so the first call uses up the budget
+    const provider = limitProvider(metered, async () => budgetReached({ perRunUsd: 0.1, action: 'stop' }, inner.model, spent.costUsd, 0))
+
+    await assert.rejects(
+      extractEventsWithGPT('March 1: The Beths', '', 'https://example.com/events', provider),
+      (error: unknown) => error instanceof ScrapeError && error.category === 'budget_exceeded'
+    )
+    assert.equal(inner.calls, 1)
+  })
+
+  it('lets calls through within the budget', async () => {
+    const inner = scriptedProvider(['not json', '{"events": []}'])
+    const provider = limitProvider(inner, async () => null)
+    assert.deepEqual(await extractEventsWithGPT('March 1: The Beths', '', 'https://example.com/events', provider), [])
+    assert.equal(inner.calls, 2)
+  })
+})
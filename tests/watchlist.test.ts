@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { Event } from '../lib/types'
+import { matchingArtists, mentionsArtist } from '../lib/watchlist'
+
+const event = (fields: Partial<Event>): Event => ({
+  venue: 'The Blue Room',
+  eventName: 'Night Owls',
+  date: 'Oct 19',
+  time: '8pm',
+  url: 'https://example.com/events',
+  source: 'llm',
+  ...fields
+})
+
+const names = (fields: Partial<Event>, artists: string[]) =>
+  matchingArtists(event(fields), artists.map((name, i) => ({ id: String(i), name, createdAt: '2026-10-01T00:00:00Z' }))).map(artist => artist.name)
+
+describe('mentionsArtist', () => {
+  it('matches whole words, ignoring case and accents', () => {
+    assert.equal(mentionsArtist('An Evening with MO', 'Mo'), true)
+    assert.equal(mentionsArtist('U2: The Joshua Tree', 'u2'), true)
+    assert.equal(mentionsArtist('Sigur Rós live', 'Sigur Ros'), true)
+  })
+
+  it("doesn't find short names inside other words", () => {
+    assert.equal(mentionsArtist('Moe and the Lows', 'Low'), false)
+    assert.equal(mentionsArtist('Live music every night', 'Muse'), false)
+    assert.equal(mentionsArtist('Mo Troper', 'U2'), false)
+  })
+
+  it('tolerates typos in longer names', () => {
+    assert.equal(mentionsArtist('Phoebe Bridger + MUNA', 'Phoebe Bridgers'), true)
+    assert.equal(mentionsArtist('Tribute to Phoebe Bridgers', 'Phoebe Waller'), false)
+  })
+
+  it('ignores single letters', () => {
+    assert.equal(mentionsArtist('X marks the spot', 'X'), false)
+  })
+})
+
+describe('matchingArtists', () => {
+  it('keeps short names to whole words in the title', () => {
+    assert.deepEqual(names({ eventName: 'Lowe' }, ['Low']), [])
+    assert.deepEqual(names({ eventName: 'Musee' }, ['Muse']), [])
+    assert.deepEqual(names({ eventName: 'Low + Guests' }, ['Low', 'Muse']), ['Low'])
+  })
+
+  it('matches longer names against the whole title or the description', () => {
+    assert.deepEqual(names({ eventName: 'The Phoebe Bridgers Band' }, ['Phoebe Bridgers']), ['Phoebe Bridgers'])
+    assert.deepEqual(names({ eventName: 'Beths' }, ['The Beths']), ['The Beths'])
+    assert.deepEqual(names({ eventName: 'Night Owls', description: 'With support from Phoebe Bridger' }, ['Phoebe Bridgers']), ['Phoebe Bridgers'])
+  })
+})